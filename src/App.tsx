@@ -3,11 +3,11 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
-import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import QrScannerPage from "./pages/QrScannerPage";
 import WorksheetPage from "./pages/WorksheetPage";
 import AIChatPage from "./pages/AIChatPage";
+import HomePage from "./pages/HomePage";
 import QRScannerButton from "./components/QRScannerButton";
 import FullscreenButton from "./components/FullscreenButton";
 import PWAInstallPrompt from "./components/PWAInstallPrompt";
@@ -23,8 +23,10 @@ const App = () => (
         <Routes>
           <Route path="/" element={<QrScannerPage />} />
           <Route path="/worksheet/:id/:n" element={<WorksheetPage />} />
+          <Route path="/worksheet/:id/:n/region/:regionId" element={<WorksheetPage />} />
+          <Route path="/worksheet/:id/:n/guidance/:guidanceKey" element={<WorksheetPage />} />
           <Route path="/chat/:worksheetId/:pageNumber" element={<AIChatPage />} />
-          <Route path="/home" element={<Index />} />
+          <Route path="/home" element={<HomePage />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
         <FullscreenButton />
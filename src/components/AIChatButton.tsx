@@ -2,8 +2,8 @@ import React from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { MessageSquareText } from "lucide-react";
-import { toast } from "@/components/ui/use-toast";
 import { cn } from "@/lib/utils";
+import { useApiKeyPrompt } from "@/hooks/useApiKeyPrompt";
 import type { RegionData, AutoModeGuidanceItem, WorksheetMetadata } from "@/types/worksheet";
 
 interface AIChatButtonProps {
@@ -28,44 +28,10 @@ const AIChatButton: React.FC<AIChatButtonProps> = ({
   worksheetMeta
 }) => {
   const navigate = useNavigate();
+  const promptForApiKey = useApiKeyPrompt();
 
   const handleClick = () => {
-    // Check if API key exists in localStorage
-    const apiKey = localStorage.getItem('gemini-api-key');
-    
-    if (!apiKey) {
-      // Prompt user for API key
-      const userApiKey = prompt(
-        'Please enter your Google Gemini API key to use AI chat:\n\n' +
-        'You can get your API key from: https://aistudio.google.com/app/apikey'
-      );
-      
-      if (!userApiKey) {
-        toast({
-          title: "API Key Required",
-          description: "You need to provide a Gemini API key to use AI chat.",
-          variant: "destructive"
-        });
-        return;
-      }
-      
-      // Save API key to localStorage
-      localStorage.setItem('gemini-api-key', userApiKey.trim());
-      
-      toast({
-        title: "API Key Saved",
-        description: "Your Gemini API key has been saved successfully.",
-      });
-    }
-    
-    // DEBUG: Check session state before navigating to AI chat
-    const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
-    const currentSessionState = sessionStorage.getItem(sessionKey);
-    console.log('🔍 [DEBUG] AIChatButton - Session state BEFORE navigating to AI chat:', {
-      sessionKey,
-      currentSessionState,
-      parsedState: currentSessionState ? JSON.parse(currentSessionState) : null
-    });
+    if (!promptForApiKey()) return;
     
     // Navigate to chat page with state including worksheet data
     navigate(`/chat/${worksheetId}/${pageNumber}`, { 
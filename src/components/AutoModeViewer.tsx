@@ -1,9 +1,27 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { useTranslation } from "react-i18next";
+import { Document, Page, pdfjs } from "react-pdf";
+import "../styles/Worksheet.css";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, Sparkles } from "lucide-react";
+import { ChevronLeft, FileText, ListChecks, LocateFixed, Sparkles, UserRound } from "lucide-react";
 import { getTextDirection } from "@/lib/textDirection";
-import type { AutoModeMetadata, AutoModeGuidanceItem, AutoModePageData } from "@/types/worksheet";
+import { getDrmProtectedPages, getPageGuidance } from "@/lib/worksheetPages";
+import { getGuidanceItemKey, getGuidanceStepAudioUrl } from "@/lib/guidanceAudio";
+import { getGuidanceSteps } from "@/lib/worksheetSteps";
+import { getTutorLoopSeekTime } from "@/lib/tutorCatalog";
+import { useGuidanceAudioManifest } from "@/hooks/useGuidanceAudioManifest";
+import { useNarration } from "@/hooks/useNarration";
+import type { NarrationStep } from "@/hooks/useNarration";
+import { useSpeechActivity } from "@/hooks/useSpeechActivity";
+import { useNarrationSettings } from "@/hooks/useNarrationSettings";
+import { useVirtualTutor } from "@/hooks/useVirtualTutor";
+import VirtualTutorSelectionModal from "./VirtualTutorSelectionModal";
+import KaraokeText from "./KaraokeText";
+import NarrationControlBar from "./NarrationControlBar";
+import type { VirtualTutor, TutorVideoState } from "@/types/tutor";
+import type { WorksheetMetadata, AutoModeGuidanceItem, AutoModePageData } from "@/types/worksheet";
+
+pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
 
 interface StoredGuidanceData {
   currentStepIndex: number;
@@ -12,7 +30,9 @@ interface StoredGuidanceData {
 interface AutoModeViewerProps {
   worksheetId: string;
   pageIndex: number;
-  worksheetMeta: AutoModeMetadata;
+  worksheetMeta: WorksheetMetadata;
+  /** When set, the page itself is shown next to the guidance list (or toggled with it on small screens) */
+  pdfUrl?: string;
   onTextModeChange?: (isTextMode: boolean) => void;
   initialActiveGuidanceItem?: AutoModeGuidanceItem | null;
   initialCurrentStepIndex?: number;
@@ -24,6 +44,7 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
   worksheetId,
   pageIndex,
   worksheetMeta,
+  pdfUrl,
   onTextModeChange,
   initialActiveGuidanceItem,
   initialCurrentStepIndex = 0,
@@ -37,11 +58,110 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
   const [isTextMode, setIsTextMode] = useState<boolean>(false);
   const [displayedMessages, setDisplayedMessages] = useState<string[]>([]);
   const [hasRestoredInitialState, setHasRestoredInitialState] = useState<boolean>(false);
+  const [highlightedGuidanceItem, setHighlightedGuidanceItem] = useState<AutoModeGuidanceItem | null>(null);
+  // Which panel is visible on small screens; both are shown side by side on wider ones
+  const [mobilePanel, setMobilePanel] = useState<'guidance' | 'page'>('guidance');
+  const [hasPdfLoadError, setHasPdfLoadError] = useState<boolean>(false);
+  
+  const [showTutorSelectionModal, setShowTutorSelectionModal] = useState<boolean>(false);
   
   const textDisplayRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  
+  const { data: audioManifest, isLoading: isAudioManifestLoading } = useGuidanceAudioManifest(worksheetId);
+  // The tutor's video cut (idle and talking segments) comes from the tutor catalog
+  const { tutors, tutor, selectTutor } = useVirtualTutor();
+  const {
+    rate: narrationRate,
+    autoAdvance,
+    updateSettings: updateNarrationSettings
+  } = useNarrationSettings();
+  // Steps without a recording in the manifest are read with speech synthesis
+  const {
+    audioRef,
+    audioElementRef,
+    isSpeaking: isAudioPlaying,
+    isPaused: isNarrationPaused,
+    play: playNarration,
+    pause: pauseNarration,
+    resume: resumeNarration,
+    stop: stopNarration,
+    source: narrationSource,
+    activeStep: narratedStep,
+    activeCues: narratedCues,
+    checkRecording,
+    canNarrate
+  } = useNarration({
+    rate: narrationRate,
+    voices: tutor.voice,
+    onEnded: step => handleNarrationEnded(step)
+  });
+
+  // The tutor follows the loudness of recordings; speech synthesis can't be measured, so it just talks
+  const speechActivity = useSpeechActivity(audioRef, isAudioPlaying && narrationSource === 'recording');
+  const tutorVideoState: TutorVideoState = speechActivity || (isAudioPlaying ? 'talking' : 'idle');
   
   // Get current page data
-  const currentPageData = worksheetMeta.data.find(page => page.page_number === pageIndex);
+  const currentPageData = getPageGuidance(worksheetMeta, pageIndex);
+  
+  const getItemKey = useCallback((guidanceItem: AutoModeGuidanceItem) =>
+    getGuidanceItemKey(pageIndex, guidanceItem, currentPageData ? currentPageData.guidance.indexOf(guidanceItem) : -1),
+  [pageIndex, currentPageData]);
+  
+  const getStepAudioUrl = useCallback((guidanceItem: AutoModeGuidanceItem, stepIndex: number) =>
+    getGuidanceStepAudioUrl(audioManifest, getItemKey(guidanceItem), stepIndex),
+  [audioManifest, getItemKey]);
+
+  const playAudioSegment = useCallback((guidanceItem: AutoModeGuidanceItem, stepIndex: number) => {
+    const text = getGuidanceSteps(guidanceItem)[stepIndex];
+    if (!text) return;
+    
+    playNarration({
+      key: `${getItemKey(guidanceItem)}_${stepIndex}`,
+      text,
+      audioUrl: getStepAudioUrl(guidanceItem, stepIndex)
+    });
+  }, [playNarration, getItemKey, getStepAudioUrl]);
+
+  // Narration waiting to start after a short delay; a later step or page replaces it
+  const narrationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  const cancelPendingNarration = useCallback(() => {
+    if (narrationTimerRef.current) {
+      clearTimeout(narrationTimerRef.current);
+      narrationTimerRef.current = null;
+    }
+  }, []);
+  
+  const scheduleNarration = useCallback((guidanceItem: AutoModeGuidanceItem, stepIndex: number) => {
+    cancelPendingNarration();
+    narrationTimerRef.current = setTimeout(() => {
+      narrationTimerRef.current = null;
+      playAudioSegment(guidanceItem, stepIndex);
+    }, 500);
+  }, [cancelPendingNarration, playAudioSegment]);
+  
+  useEffect(() => cancelPendingNarration, [cancelPendingNarration]);
+
+  // Starts the tutor video and, shortly after, the narration for a step
+  const idleStart = tutor.segments.idle.start;
+  const startNarration = useCallback((guidanceItem: AutoModeGuidanceItem, stepIndex: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = idleStart;
+      videoRef.current.play().catch(() => {
+        // The video may have been removed from the DOM while starting
+      });
+    }
+    
+    scheduleNarration(guidanceItem, stepIndex);
+  }, [idleStart, scheduleNarration]);
+  
+  const activeStepAudioUrl = activeGuidanceItem ? getStepAudioUrl(activeGuidanceItem, currentStepIndex) : null;
+  const audioAvailable = !!activeGuidanceItem && canNarrate(activeStepAudioUrl);
+  
+  useEffect(() => {
+    checkRecording(activeStepAudioUrl);
+  }, [activeStepAudioUrl, checkRecording]);
   
   // Reset component state when worksheet or page changes
   const prevWorksheetIdRef = useRef<string>(worksheetId);
@@ -57,19 +177,33 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
       setDisplayedMessages([]);
       setIsTextMode(false);
       setHasRestoredInitialState(false);
+      setHighlightedGuidanceItem(null);
+      setMobilePanel('guidance');
       
       if (onTextModeChange) {
         onTextModeChange(false);
       }
       
+      cancelPendingNarration();
+      stopNarration();
+      
+      if (videoRef.current) {
+        videoRef.current.pause();
+      }
+      
       prevWorksheetIdRef.current = worksheetId;
       prevPageIndexRef.current = pageIndex;
     }
-  }, [worksheetId, pageIndex, onTextModeChange]);
+  }, [worksheetId, pageIndex, onTextModeChange, stopNarration, cancelPendingNarration]);
+
+  useEffect(() => {
+    setHasPdfLoadError(false);
+  }, [pdfUrl]);
 
   // Apply initial state restoration
   useEffect(() => {
-    if (initialActiveGuidanceItem && currentPageData && !hasRestoredInitialState) {
+    // Wait for the audio manifest so the restored step is narrated too
+    if (initialActiveGuidanceItem && currentPageData && !hasRestoredInitialState && !isAudioManifestLoading) {
       const matchingGuidanceItem = currentPageData.guidance.find(
         item => item.title === initialActiveGuidanceItem.title
       );
@@ -91,10 +225,12 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
           onTextModeChange(true);
         }
         
+        startNarration(matchingGuidanceItem, initialCurrentStepIndex);
+        
         setHasRestoredInitialState(true);
       }
     }
-  }, [initialActiveGuidanceItem, initialCurrentStepIndex, currentPageData, hasRestoredInitialState, onTextModeChange]);
+  }, [initialActiveGuidanceItem, initialCurrentStepIndex, currentPageData, hasRestoredInitialState, isAudioManifestLoading, onTextModeChange, startNarration]);
 
   // Notify parent when guidance state changes
   useEffect(() => {
@@ -111,6 +247,42 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
     }
   }, [displayedMessages]);
 
+  // Move the tutor video to the idle, talking or emphasis segment as soon as its state changes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    
+    const seekTime = getTutorLoopSeekTime(tutor, video.currentTime, tutorVideoState);
+    if (seekTime !== null) {
+      video.currentTime = seekTime;
+    }
+    if (tutorVideoState !== 'idle' && video.paused) {
+      video.play().catch(() => {
+        // The video may have been removed from the DOM while starting
+      });
+    }
+  }, [tutorVideoState, tutor]);
+
+  // The video element only exists while the current step can be narrated
+  useEffect(() => {
+    if (!videoRef.current) return;
+    
+    const video = videoRef.current;
+    
+    const handleVideoTimeUpdate = () => {
+      const seekTime = getTutorLoopSeekTime(tutor, video.currentTime, tutorVideoState);
+      if (seekTime !== null) {
+        video.currentTime = seekTime;
+      }
+    };
+    
+    video.addEventListener('timeupdate', handleVideoTimeUpdate);
+    
+    return () => {
+      video.removeEventListener('timeupdate', handleVideoTimeUpdate);
+    };
+  }, [audioAvailable, tutorVideoState, tutor]);
+
   const handleGuidanceItemClick = (guidanceItem: AutoModeGuidanceItem) => {
     console.log('🔍 [DEBUG] Guidance item clicked:', guidanceItem.title);
     
@@ -138,12 +310,21 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
     
     setActiveGuidanceItem(guidanceItem);
     setIsTextMode(true);
+    startNarration(guidanceItem, startingStepIndex);
+    // A guidance item picked by the user supersedes any pending initial state (e.g. a deep link)
+    setHasRestoredInitialState(true);
     
     if (onTextModeChange) {
       onTextModeChange(true);
     }
   };
 
+  const handleShowOnPage = (event: React.MouseEvent, guidanceItem: AutoModeGuidanceItem) => {
+    event.stopPropagation();
+    setHighlightedGuidanceItem(current => current === guidanceItem ? null : guidanceItem);
+    setMobilePanel('page');
+  };
+
   const handleNextStep = () => {
     if (!activeGuidanceItem) return;
     
@@ -152,6 +333,8 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
       .filter(paragraph => paragraph.trim() !== '');
     
     if (currentStepIndex < paragraphs.length - 1) {
+      stopNarration();
+      
       const nextStepIndex = currentStepIndex + 1;
       console.log('🔍 [DEBUG] Advancing to next step:', nextStepIndex, 'for guidance item:', activeGuidanceItem.title);
       
@@ -161,6 +344,43 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
         ...prevMessages,
         paragraphs[nextStepIndex]
       ]);
+      
+      scheduleNarration(activeGuidanceItem, nextStepIndex);
+    }
+  };
+
+  // Tapping a message replays its narration
+  const handleMessageClick = (index: number) => {
+    if (!activeGuidanceItem || !audioAvailable) return;
+    
+    cancelPendingNarration();
+    playAudioSegment(activeGuidanceItem, index);
+    
+    const messageElement = textDisplayRef.current?.querySelector(`[data-message-index="${index}"]`);
+    if (messageElement) {
+      messageElement.classList.add('message-highlight');
+      setTimeout(() => {
+        messageElement.classList.remove('message-highlight');
+      }, 200);
+    }
+  };
+
+  // Auto-advance follows the newest step only, not a replay of an earlier message
+  const handleNarrationEnded = (step: NarrationStep | null) => {
+    if (autoAdvance && activeGuidanceItem && step?.key === `${getItemKey(activeGuidanceItem)}_${currentStepIndex}`) {
+      handleNextStep();
+    }
+  };
+
+  const handleNarrationPlayPause = () => {
+    if (!activeGuidanceItem) return;
+    
+    if (isAudioPlaying) {
+      pauseNarration();
+    } else if (isNarrationPaused) {
+      resumeNarration();
+    } else {
+      playAudioSegment(activeGuidanceItem, currentStepIndex);
     }
   };
 
@@ -174,6 +394,27 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
     setActiveGuidanceItem(null);
     setCurrentStepIndex(0);
     setDisplayedMessages([]);
+    
+    cancelPendingNarration();
+    stopNarration();
+    
+    if (videoRef.current) {
+      videoRef.current.pause();
+    }
+  };
+
+  const handleTutorSelected = (selectedTutor: VirtualTutor) => {
+    selectTutor(selectedTutor);
+    setShowTutorSelectionModal(false);
+    
+    if (videoRef.current) {
+      videoRef.current.load();
+      if (isAudioPlaying) {
+        videoRef.current.play().catch(() => {
+          // The video may have been removed from the DOM while starting
+        });
+      }
+    }
   };
 
   if (!currentPageData) {
@@ -193,8 +434,49 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
     : [];
   const hasNextStep = activeGuidanceItem && currentStepIndex < paragraphs.length - 1;
 
+  const drmProtectedPages = getDrmProtectedPages(worksheetMeta);
+  const isCurrentPageDrmProtected = drmProtectedPages === true
+    || (Array.isArray(drmProtectedPages) && drmProtectedPages.includes(pageIndex));
+  const highlightedArea = highlightedGuidanceItem?.area;
+  // Auto Mode worksheets don't always ship a PDF, so fall back to the guidance list alone
+  const showPagePanel = !!pdfUrl && !hasPdfLoadError;
+
+  const guidanceList = (
+    <div className="space-y-4">
+      {currentPageData.guidance.map((guidanceItem, index) => (
+        <div
+          key={index}
+          className={`guidance-item-card bg-white rounded-lg border border-gray-200 p-4 cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 shadow-sm hover:shadow-md ${highlightedGuidanceItem === guidanceItem ? 'highlighted' : ''}`}
+          onClick={() => handleGuidanceItemClick(guidanceItem)}
+          dir={getTextDirection(guidanceItem.title)}
+        >
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">
+            {guidanceItem.title}
+          </h3>
+          <p className="text-gray-600 text-sm line-clamp-2">
+            {guidanceItem.description.split('\n')[0]}
+          </p>
+          {showPagePanel && guidanceItem.area && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="mt-2 px-2 text-blue-600 hover:text-blue-700"
+              onClick={(event) => handleShowOnPage(event, guidanceItem)}
+              dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}
+            >
+              <LocateFixed className="h-4 w-4" />
+              {highlightedGuidanceItem === guidanceItem ? t('worksheet.hideOnPage') : t('worksheet.showOnPage')}
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
   return (
     <div className={`worksheet-container ${isTextMode ? 'text-mode' : ''}`}>
+      <audio ref={audioElementRef} className="hidden" />
+      
       {isTextMode && (
         <Button
           onClick={handleBackButtonClick}
@@ -204,6 +486,16 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
           <ChevronLeft className="h-5 w-5" />
         </Button>
       )}
+      
+      {isTextMode && audioAvailable && (
+        <Button
+          onClick={() => setShowTutorSelectionModal(true)}
+          className="fixed top-24 right-4 z-70 rounded-full bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white shadow-lg h-8 w-8"
+          aria-label="Select Virtual Tutor"
+        >
+          <UserRound className="h-4 w-4" />
+        </Button>
+      )}
 
       {!isTextMode && (
         <div className="auto-mode-titles-container w-full max-w-4xl mx-auto p-6">
@@ -216,28 +508,98 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
             </p>
           </div>
           
-          <div className="space-y-4">
-            {currentPageData.guidance.map((guidanceItem, index) => (
-              <div
-                key={index}
-                className="guidance-item-card bg-white rounded-lg border border-gray-200 p-4 cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 shadow-sm hover:shadow-md"
-                onClick={() => handleGuidanceItemClick(guidanceItem)}
-                dir={getTextDirection(guidanceItem.title)}
-              >
-                <h3 className="text-lg font-semibold text-gray-800 mb-2">
-                  {guidanceItem.title}
-                </h3>
-                <p className="text-gray-600 text-sm line-clamp-2">
-                  {guidanceItem.description.split('\n')[0]}
-                </p>
+          {showPagePanel ? (
+            <>
+              <div className="flex justify-center gap-2 mb-4 md:hidden" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
+                <Button
+                  variant={mobilePanel === 'guidance' ? 'default' : 'outline'}
+                  size="sm"
+                  className="rounded-full"
+                  onClick={() => setMobilePanel('guidance')}
+                >
+                  <ListChecks className="h-4 w-4" />
+                  {t('worksheet.guidanceView')}
+                </Button>
+                <Button
+                  variant={mobilePanel === 'page' ? 'default' : 'outline'}
+                  size="sm"
+                  className="rounded-full"
+                  onClick={() => setMobilePanel('page')}
+                >
+                  <FileText className="h-4 w-4" />
+                  {t('worksheet.pageView')}
+                </Button>
               </div>
-            ))}
-          </div>
+
+              <div className="auto-mode-split md:grid md:grid-cols-2 md:gap-6 md:items-start">
+                <div className={mobilePanel === 'guidance' ? 'block' : 'hidden md:block'}>
+                  {guidanceList}
+                </div>
+
+                <div className={`auto-mode-page-panel ${mobilePanel === 'page' ? 'block' : 'hidden md:block'}`}>
+                  <div className={`worksheet-pdf-container auto-mode-page ${isCurrentPageDrmProtected ? 'drm-active' : ''}`}>
+                    <Document
+                      file={pdfUrl}
+                      onLoadError={() => setHasPdfLoadError(true)}
+                      loading={null}
+                    >
+                      <Page
+                        pageNumber={pageIndex}
+                        renderTextLayer={false}
+                        renderAnnotationLayer={false}
+                        className={`worksheet-page ${isCurrentPageDrmProtected ? 'blurred' : ''}`}
+                        width={window.innerWidth > 768 ? 420 : undefined}
+                      />
+                    </Document>
+
+                    {highlightedArea && (
+                      <div
+                        className="auto-mode-highlight"
+                        style={{
+                          left: `${highlightedArea.x * 100}%`,
+                          top: `${highlightedArea.y * 100}%`,
+                          width: `${highlightedArea.width * 100}%`,
+                          height: `${highlightedArea.height * 100}%`,
+                        }}
+                        title={highlightedGuidanceItem.title}
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            </>
+          ) : guidanceList}
         </div>
       )}
 
       {activeGuidanceItem && (
         <div className={`worksheet-text-display-container ${isTextMode ? 'active' : 'hidden'}`}>
+          {audioAvailable && (
+            <video 
+              ref={videoRef}
+              className="video-element"
+              src={tutor.videoSrc}
+              poster={tutor.posterSrc}
+              muted
+              autoPlay
+              playsInline
+              preload="auto"
+              onContextMenu={(e) => e.preventDefault()}
+            />
+          )}
+          
+          {audioAvailable && (
+            <NarrationControlBar
+              isPlaying={isAudioPlaying}
+              rate={narrationRate}
+              autoAdvance={autoAdvance}
+              onPlayPause={handleNarrationPlayPause}
+              onReplay={() => playAudioSegment(activeGuidanceItem, currentStepIndex)}
+              onRateChange={rate => updateNarrationSettings({ rate })}
+              onAutoAdvanceChange={value => updateNarrationSettings({ autoAdvance: value })}
+            />
+          )}
+          
           <div 
             className="worksheet-text-display"
             ref={textDisplayRef}
@@ -247,10 +609,23 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
                 <div 
                   key={index} 
                   className="chat-message"
+                  onClick={() => handleMessageClick(index)}
                   data-message-index={index}
+                  role="button"
+                  tabIndex={0}
                   dir={getTextDirection(message)}
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      handleMessageClick(index);
+                    }
+                  }}
                 >
-                  <p>{message}</p>
+                  <KaraokeText
+                    text={message}
+                    cues={narratedStep?.key === `${getItemKey(activeGuidanceItem)}_${index}` ? narratedCues : null}
+                    audioRef={audioRef}
+                    isPlaying={isAudioPlaying && narrationSource === 'recording' && narratedStep?.key === `${getItemKey(activeGuidanceItem)}_${index}`}
+                  />
                 </div>
               ))}
             </div>
@@ -267,6 +642,14 @@ const AutoModeViewer: React.FC<AutoModeViewerProps> = ({
           <Sparkles className="!h-6 !w-6" />
         </Button>
       )}
+      
+      <VirtualTutorSelectionModal
+        isOpen={showTutorSelectionModal}
+        onClose={() => setShowTutorSelectionModal(false)}
+        tutors={tutors}
+        selectedTutorId={tutor.id}
+        onSelectTutor={handleTutorSelected}
+      />
     </div>
   );
 };
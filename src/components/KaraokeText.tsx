@@ -0,0 +1,66 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { getTextDirection } from "@/lib/textDirection";
+import { alignWordTimings, findActiveWordIndex, isWordToken, splitWords } from "@/lib/wordTiming";
+import type { TranscriptCue } from "@/types/worksheet";
+
+interface KaraokeTextProps {
+  text: string;
+  /** Word timings of the recording; without them the text is shown as is */
+  cues?: TranscriptCue[] | null;
+  audioRef: React.RefObject<HTMLAudioElement>;
+  isPlaying: boolean;
+}
+
+/**
+ * A narrated paragraph with the word being spoken highlighted, following the audio's playback position
+ */
+const KaraokeText: React.FC<KaraokeTextProps> = ({ text, cues, audioRef, isPlaying }) => {
+  const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
+
+  const tokens = useMemo(() => splitWords(text), [text]);
+  const wordTimings = useMemo(() => cues?.length ? alignWordTimings(text, cues) : null, [text, cues]);
+
+  // Poll the playback position every frame; `timeupdate` only fires a few times a second
+  useEffect(() => {
+    if (!isPlaying || !wordTimings) {
+      setActiveWordIndex(-1);
+      return;
+    }
+
+    let frame: number;
+    const update = () => {
+      const audio = audioRef.current;
+      if (audio) {
+        setActiveWordIndex(findActiveWordIndex(wordTimings, audio.currentTime));
+      }
+      frame = requestAnimationFrame(update);
+    };
+    update();
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, wordTimings, audioRef]);
+
+  if (!wordTimings) {
+    return <p>{text}</p>;
+  }
+
+  let wordIndex = -1;
+
+  // Words stay in logical order inside a `dir`-aware paragraph, so RTL text lays out and joins as usual
+  return (
+    <p dir={getTextDirection(text)} className="karaoke-text">
+      {tokens.map((token, tokenIndex) => {
+        if (!isWordToken(token)) return token;
+        wordIndex++;
+        const isActive = wordIndex === activeWordIndex;
+        return (
+          <span key={tokenIndex} className={`karaoke-word ${isActive ? 'active' : ''}`}>
+            {token}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+export default KaraokeText;
@@ -0,0 +1,84 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Toggle } from "@/components/ui/toggle";
+import { FastForward, Pause, Play, RotateCcw } from "lucide-react";
+import { NARRATION_RATES } from "@/hooks/useNarrationSettings";
+
+interface NarrationControlBarProps {
+  isPlaying: boolean;
+  rate: number;
+  autoAdvance: boolean;
+  onPlayPause: () => void;
+  onReplay: () => void;
+  onRateChange: (rate: number) => void;
+  onAutoAdvanceChange: (autoAdvance: boolean) => void;
+}
+
+/**
+ * Compact narration controls shown above a step's text: play/pause, replay, speed and auto-advance
+ */
+const NarrationControlBar: React.FC<NarrationControlBarProps> = ({
+  isPlaying,
+  rate,
+  autoAdvance,
+  onPlayPause,
+  onReplay,
+  onRateChange,
+  onAutoAdvanceChange
+}) => {
+  const { t } = useTranslation();
+
+  // Tapping the speed button cycles through the rates, which is easier for young learners than a menu
+  const handleRateClick = () => {
+    const currentIndex = NARRATION_RATES.indexOf(rate);
+    onRateChange(NARRATION_RATES[(currentIndex + 1) % NARRATION_RATES.length]);
+  };
+
+  return (
+    <div
+      className="narration-control-bar flex items-center justify-center gap-1 rounded-full bg-white shadow-md px-2 py-1 my-1"
+      dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}
+    >
+      <Button
+        variant="ghost"
+        size="icon"
+        className="rounded-full h-9 w-9"
+        onClick={onPlayPause}
+        aria-label={isPlaying ? t('narration.pause') : t('narration.play')}
+      >
+        {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="rounded-full h-9 w-9"
+        onClick={onReplay}
+        aria-label={t('narration.replay')}
+      >
+        <RotateCcw className="h-5 w-5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="rounded-full h-9 px-3 font-semibold"
+        onClick={handleRateClick}
+        aria-label={t('narration.speed', { rate })}
+      >
+        <span dir="ltr">{rate}×</span>
+      </Button>
+      <Toggle
+        size="sm"
+        className="rounded-full h-9 gap-1"
+        pressed={autoAdvance}
+        onPressedChange={onAutoAdvanceChange}
+        aria-label={t('narration.autoAdvance')}
+      >
+        <FastForward className="h-4 w-4" />
+        <span className="text-xs">{t('narration.autoAdvance')}</span>
+      </Toggle>
+    </div>
+  );
+};
+
+export default NarrationControlBar;
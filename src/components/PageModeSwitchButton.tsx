@@ -0,0 +1,39 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { FileText, Sparkles } from "lucide-react";
+import type { PageMode } from "@/types/worksheet";
+
+interface PageModeSwitchButtonProps {
+  shouldDisplay: boolean;
+  currentMode: PageMode;
+  onSwitch: (mode: PageMode) => void;
+}
+
+/**
+ * Switches a hybrid worksheet page between its PDF view with regions and its guidance view
+ */
+const PageModeSwitchButton: React.FC<PageModeSwitchButtonProps> = ({
+  shouldDisplay,
+  currentMode,
+  onSwitch
+}) => {
+  const { t } = useTranslation();
+
+  if (!shouldDisplay) return null;
+
+  const nextMode: PageMode = currentMode === 'auto' ? 'regions' : 'auto';
+
+  return (
+    <Button
+      onClick={() => onSwitch(nextMode)}
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-70 rounded-full bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white shadow-lg"
+      dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}
+    >
+      {nextMode === 'auto' ? <Sparkles className="h-4 w-4" /> : <FileText className="h-4 w-4" />}
+      {nextMode === 'auto' ? t('worksheet.showGuidance') : t('worksheet.showPage')}
+    </Button>
+  );
+};
+
+export default PageModeSwitchButton;
@@ -0,0 +1,62 @@
+import React from "react";
+import { Page } from "react-pdf";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { cn } from "@/lib/utils";
+
+// Only a window of pages around the current one is rendered to keep large booklets cheap
+const MAX_VISIBLE_THUMBNAILS = 7;
+const THUMBNAIL_WIDTH = 56;
+
+interface PageThumbnailStripProps {
+  /** The document the viewer has already loaded */
+  pdf: PDFDocumentProxy;
+  numPages: number;
+  currentPage: number;
+  onSelectPage: (page: number) => void;
+  isPageProtected: (page: number) => boolean;
+}
+
+/**
+ * Strip of page thumbnails, rendered from the viewer's loaded document rather than a second one
+ */
+const PageThumbnailStrip: React.FC<PageThumbnailStripProps> = ({
+  pdf,
+  numPages,
+  currentPage,
+  onSelectPage,
+  isPageProtected
+}) => {
+  const visibleCount = Math.min(numPages, MAX_VISIBLE_THUMBNAILS);
+  const firstPage = Math.min(
+    Math.max(currentPage - Math.floor(visibleCount / 2), 1),
+    numPages - visibleCount + 1
+  );
+  const pages = Array.from({ length: visibleCount }, (_, index) => firstPage + index);
+
+  return (
+    <div className="page-thumbnail-strip">
+      {pages.map((page) => (
+        <button
+          key={page}
+          type="button"
+          className={cn("page-thumbnail", page === currentPage && "active", isPageProtected(page) && "blurred")}
+          onClick={() => onSelectPage(page)}
+          aria-label={String(page)}
+          aria-current={page === currentPage ? "page" : undefined}
+        >
+          <Page
+            pdf={pdf}
+            pageNumber={page}
+            width={THUMBNAIL_WIDTH}
+            renderTextLayer={false}
+            renderAnnotationLayer={false}
+            loading={null}
+          />
+          <span className="page-thumbnail-number">{page}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PageThumbnailStrip;
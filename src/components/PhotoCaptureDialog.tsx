@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { Camera, ImageUp, Loader2 } from "lucide-react";
+import { closeCamera, isCameraSupported, openBackCamera } from "@/lib/camera";
+import { compressImage, compressImageFile } from "@/lib/imageCompression";
+import { useCameraErrorHandler } from "@/hooks/useCameraErrorHandler";
+
+interface PhotoCaptureDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the compressed photo as a JPEG data URL */
+  onCapture: (photo: string) => void;
+}
+
+/**
+ * Takes a photo of the learner's paper worksheet with the back camera. When the camera can't
+ * be used (no permission, no camera), a photo can be picked from the device instead.
+ */
+const PhotoCaptureDialog: React.FC<PhotoCaptureDialogProps> = ({ isOpen, onClose, onCapture }) => {
+  const { t } = useTranslation();
+  const handleCameraError = useCameraErrorHandler();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCompressing, setIsCompressing] = useState(false);
+  // Bumped by "Try again" to ask for the camera once more
+  const [cameraAttempt, setCameraAttempt] = useState(0);
+  const dir = t('common.language') === 'العربية' ? 'rtl' : 'ltr';
+
+  // Open the camera while the dialog is open, and release it when it closes
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!isCameraSupported()) {
+      setError(t('aiChat.photo.cameraUnavailable'));
+      return;
+    }
+
+    let cancelled = false;
+    let openedStream: MediaStream | null = null;
+    setError(null);
+    openBackCamera()
+      .then(cameraStream => {
+        if (cancelled) {
+          closeCamera(cameraStream);
+          return;
+        }
+        openedStream = cameraStream;
+        setStream(cameraStream);
+      })
+      .catch(cameraError => {
+        if (!cancelled) setError(handleCameraError(cameraError));
+      });
+
+    return () => {
+      cancelled = true;
+      if (openedStream) closeCamera(openedStream);
+      setStream(null);
+    };
+  }, [isOpen, cameraAttempt, handleCameraError, t]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  const handleTakePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    try {
+      onCapture(compressImage(video, video.videoWidth, video.videoHeight));
+      onClose();
+    } catch (captureError) {
+      console.error('Failed to capture photo:', captureError);
+      toast({
+        title: t('aiChat.photo.error'),
+        description: t('aiChat.photo.errorDesc'),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsCompressing(true);
+    try {
+      onCapture(await compressImageFile(file));
+      onClose();
+    } catch (fileError) {
+      console.error('Failed to read photo:', fileError);
+      toast({
+        title: t('aiChat.photo.error'),
+        description: t('aiChat.photo.errorDesc'),
+        variant: "destructive"
+      });
+    } finally {
+      setIsCompressing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-md mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-center" dir={dir}>{t('aiChat.photo.title')}</DialogTitle>
+          <DialogDescription className="text-center" dir={dir}>
+            {t('aiChat.photo.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="text-center p-4" dir={dir}>
+            <p className="text-red-500 mb-4">{error}</p>
+            {isCameraSupported() && (
+              <Button onClick={() => setCameraAttempt(attempt => attempt + 1)} variant="outline">
+                {t('aiChat.photo.tryAgain')}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="relative aspect-[3/4] rounded-lg overflow-hidden border-2 border-blue-200 bg-black">
+            <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+            {!stream && (
+              <div className="absolute inset-0 flex items-center justify-center text-white">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-center gap-3 pt-2" dir={dir}>
+          {!error && (
+            <Button
+              onClick={handleTakePhoto}
+              disabled={!stream}
+              className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white"
+            >
+              <Camera className="h-4 w-4" />
+              {t('aiChat.photo.take')}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isCompressing}>
+            {isCompressing ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageUp className="h-4 w-4" />}
+            {t('aiChat.photo.choose')}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoCaptureDialog;
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/components/ui/use-toast";
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { enableProgressSync, disableProgressSync, syncProgress, normalizeSyncCode } from "@/lib/progressSync";
+import { useProgressSync } from "@/hooks/useProgressSync";
+
+/**
+ * Lets a family link devices so a learner's progress follows them. Hidden when Supabase isn't configured.
+ */
+const ProgressSyncCard: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { isAvailable, state, syncCode } = useProgressSync();
+  const [codeInput, setCodeInput] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const uiDirection = i18n.language === 'ar' ? 'rtl' : 'ltr';
+
+  if (!isAvailable) return null;
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.warn('Progress sync action failed:', error);
+      toast({
+        title: t('sync.error'),
+        description: t('sync.errorDesc'),
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLinkDevice = () => {
+    if (!normalizeSyncCode(codeInput)) {
+      toast({
+        title: t('sync.invalidCode'),
+        description: t('sync.invalidCodeDesc'),
+        variant: "destructive"
+      });
+      return;
+    }
+    runAction(async () => {
+      await enableProgressSync(codeInput);
+      setCodeInput("");
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-md mt-4">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2" dir={uiDirection}>
+          {syncCode ? <Cloud className="h-5 w-5 text-orange-500" /> : <CloudOff className="h-5 w-5 text-gray-400" />}
+          {t('sync.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3" dir={uiDirection}>
+        {syncCode ? (
+          <>
+            <p className="text-sm text-gray-600">{t('sync.enabledDesc')}</p>
+            <p className="font-mono text-lg text-center tracking-wider select-all" dir="ltr">{syncCode}</p>
+            <p className="text-xs text-gray-500">{t(`sync.status.${state}`)}</p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={isBusy || state === 'syncing'}
+                onClick={() => runAction(syncProgress)}
+              >
+                <RefreshCw className={`h-4 w-4 ${state === 'syncing' ? 'animate-spin' : ''}`} />
+                {t('sync.syncNow')}
+              </Button>
+              <Button variant="ghost" disabled={isBusy} onClick={() => runAction(disableProgressSync)}>
+                {t('sync.disable')}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">{t('sync.disabledDesc')}</p>
+            <Button
+              disabled={isBusy}
+              onClick={() => runAction(() => enableProgressSync())}
+              className="w-full bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white"
+            >
+              {t('sync.enable')}
+            </Button>
+            <div className="flex gap-2">
+              <Input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                placeholder={t('sync.codePlaceholder')}
+                className="font-mono"
+                dir="ltr"
+              />
+              <Button variant="outline" disabled={isBusy || !codeInput.trim()} onClick={handleLinkDevice}>
+                {t('sync.link')}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProgressSyncCard;
@@ -2,44 +2,28 @@ import React from "react";
 import { useTranslation } from "react-i18next";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-
-interface VirtualTutor {
-  id: string;
-  name: string;
-  imageSrc: string;
-  videoSrc: string;
-}
-
-const VIRTUAL_TUTORS: VirtualTutor[] = [
-  {
-    id: "tutor1",
-    name: "Virtual Tutor 1",
-    imageSrc: "/video/1.jpg",
-    videoSrc: "/video/1.mp4"
-  },
-  {
-    id: "tutor2", 
-    name: "Virtual Tutor 2",
-    imageSrc: "/video/2.jpg",
-    videoSrc: "/video/2.mp4"
-  }
-];
+import { getTutorName } from "@/lib/tutorCatalog";
+import type { VirtualTutor } from "@/types/tutor";
 
 interface VirtualTutorSelectionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelectTutor: (videoSrc: string) => void;
+  tutors: VirtualTutor[];
+  selectedTutorId?: string;
+  onSelectTutor: (tutor: VirtualTutor) => void;
 }
 
 const VirtualTutorSelectionModal: React.FC<VirtualTutorSelectionModalProps> = ({
   isOpen,
   onClose,
+  tutors,
+  selectedTutorId,
   onSelectTutor
 }) => {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
 
-  const handleTutorClick = (videoSrc: string) => {
-    onSelectTutor(videoSrc);
+  const handleTutorClick = (tutor: VirtualTutor) => {
+    onSelectTutor(tutor);
   };
 
   return (
@@ -53,21 +37,28 @@ const VirtualTutorSelectionModal: React.FC<VirtualTutorSelectionModalProps> = ({
         </DialogHeader>
         
         <div className="grid grid-cols-2 gap-4 p-4">
-          {VIRTUAL_TUTORS.map((tutor) => (
+          {tutors.map((tutor) => (
             <div
               key={tutor.id}
-              className="w-32 h-32 cursor-pointer rounded-lg border-2 border-gray-200 hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 overflow-hidden mx-auto"
-              onClick={() => handleTutorClick(tutor.videoSrc)}
+              className="flex flex-col items-center gap-2 cursor-pointer mx-auto"
+              onClick={() => handleTutorClick(tutor)}
             >
-              <img
-                src={tutor.imageSrc}
-                alt={tutor.name}
-                className="w-full h-full object-cover"
-                onError={(e) => {
-                  // Fallback if image fails to load
-                  e.currentTarget.style.display = 'none';
-                }}
-              />
+              <div
+                className={`w-32 h-32 rounded-lg border-2 ${tutor.id === selectedTutorId ? 'border-blue-500' : 'border-gray-200'} hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 overflow-hidden`}
+              >
+                <img
+                  src={tutor.posterSrc}
+                  alt={getTutorName(tutor, i18n.language)}
+                  className="w-full h-full object-cover"
+                  onError={(e) => {
+                    // Fallback if image fails to load
+                    e.currentTarget.style.display = 'none';
+                  }}
+                />
+              </div>
+              <span className="text-sm text-gray-700 text-center" dir="auto">
+                {getTutorName(tutor, i18n.language)}
+              </span>
             </div>
           ))}
         </div>
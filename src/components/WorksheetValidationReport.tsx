@@ -0,0 +1,56 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import type { WorksheetValidationError, WorksheetValidationIssue } from "@/lib/worksheetSchema";
+
+interface WorksheetValidationReportProps {
+  error: WorksheetValidationError;
+}
+
+const MAX_LISTED_ISSUES = 20;
+
+/**
+ * Lists what is wrong with a worksheet's metadata, so whoever authored it can fix the file
+ */
+const WorksheetValidationReport: React.FC<WorksheetValidationReportProps> = ({ error }) => {
+  const { t } = useTranslation();
+  const listedIssues = error.issues.slice(0, MAX_LISTED_ISSUES);
+
+  const describeLocation = (issue: WorksheetValidationIssue) => {
+    if (issue.regionId) {
+      return t('worksheet.validation.region', { id: issue.regionId, field: issue.field });
+    }
+    if (issue.pageNumber !== undefined && issue.guidanceTitle) {
+      return t('worksheet.validation.guidance', { page: issue.pageNumber, title: issue.guidanceTitle, field: issue.field });
+    }
+    if (issue.pageNumber !== undefined) {
+      return t('worksheet.validation.page', { page: issue.pageNumber, field: issue.field });
+    }
+    return issue.path;
+  };
+
+  return (
+    <div className="max-w-lg w-full text-start">
+      <h1 className="text-2xl font-bold text-red-500 mb-2 text-center">
+        {t('worksheet.validation.title')}
+      </h1>
+      <p className="text-gray-600 mb-4 text-center">
+        {t('worksheet.validation.description', { id: error.worksheetId, count: error.issues.length })}
+      </p>
+      <ul className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-2 mb-4 max-h-80 overflow-y-auto">
+        {listedIssues.map((issue, index) => (
+          <li key={`${issue.path}-${index}`} className="text-sm">
+            <span className="font-semibold text-red-700">{describeLocation(issue)}</span>
+            <code className="block text-xs text-gray-500" dir="ltr">{issue.path}: {issue.message}</code>
+          </li>
+        ))}
+      </ul>
+      {error.issues.length > listedIssues.length && (
+        <p className="text-sm text-gray-500 mb-4 text-center">
+          {t('worksheet.validation.more', { count: error.issues.length - listedIssues.length })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WorksheetValidationReport;
@@ -1,13 +1,27 @@
-import React, { useState, useEffect, useRef, useMemo } from "react";
+import React, { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { useTranslation } from "react-i18next";
 import { Document, Page, pdfjs } from "react-pdf";
+import type { PDFDocumentProxy } from "pdfjs-dist";
 import "../styles/Worksheet.css";
 import { toast } from "@/components/ui/use-toast";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, Sparkles, UserRound } from "lucide-react";
+import { ChevronLeft, ChevronRight, Sparkles, UserRound } from "lucide-react";
 import { getTextDirection } from "@/lib/textDirection";
+import { getRegionSteps } from "@/lib/worksheetSteps";
+import { getAllRegions, getDrmProtectedPages } from "@/lib/worksheetPages";
+import { getTutorLoopSeekTime } from "@/lib/tutorCatalog";
+import { useSwipeNavigation } from "@/hooks/useSwipeNavigation";
+import { useNarration } from "@/hooks/useNarration";
+import type { NarrationStep } from "@/hooks/useNarration";
+import { useSpeechActivity } from "@/hooks/useSpeechActivity";
+import { useNarrationSettings } from "@/hooks/useNarrationSettings";
+import { useVirtualTutor } from "@/hooks/useVirtualTutor";
 import VirtualTutorSelectionModal from "./VirtualTutorSelectionModal";
-import type { WorksheetMetadata, RegionData } from "@/types/worksheet";
+import KaraokeText from "./KaraokeText";
+import NarrationControlBar from "./NarrationControlBar";
+import PageThumbnailStrip from "./PageThumbnailStrip";
+import type { VirtualTutor, TutorVideoState } from "@/types/tutor";
+import type { WorksheetMetadata, RegionData, RegionStepAudio } from "@/types/worksheet";
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
 
@@ -25,8 +39,12 @@ interface WorksheetViewerProps {
   initialCurrentStepIndex?: number;
   onRegionStateChange?: (region: RegionData | null, stepIndex: number) => void;
   allRegionsState?: Record<string, StoredRegionData>;
+  onPageChange?: (page: number) => void;
 }
 
+// Number of pages on each side of the current one to prefetch
+const PREFETCH_PAGE_RADIUS = 1;
+
 const WorksheetViewer: React.FC<WorksheetViewerProps> = ({ 
   worksheetId, 
   pageIndex, 
@@ -36,7 +54,8 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   initialActiveRegion,
   initialCurrentStepIndex = 0,
   onRegionStateChange,
-  allRegionsState = {}
+  allRegionsState = {},
+  onPageChange
 }) => {
   const { t } = useTranslation();
   const [numPages, setNumPages] = useState<number | null>(null);
@@ -54,15 +73,39 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   
   const [isCurrentPageDrmProtected, setIsCurrentPageDrmProtected] = useState<boolean>(false);
   
-  const [isAudioPlaying, setIsAudioPlaying] = useState<boolean>(false);
-  const [audioAvailable, setAudioAvailable] = useState<boolean>(true);
-  const [audioCheckPerformed, setAudioCheckPerformed] = useState<boolean>(false);
+  // The tutor's video cut (idle and talking segments) comes from the tutor catalog
+  const { tutors, tutor, selectTutor } = useVirtualTutor();
+  const {
+    rate: narrationRate,
+    autoAdvance,
+    updateSettings: updateNarrationSettings
+  } = useNarrationSettings();
   
-  // Virtual tutor selection state
-  const [selectedTutorVideoUrl, setSelectedTutorVideoUrl] = useState<string>(() => {
-    // Load saved tutor preference from localStorage, default to Virtual Tutor 1
-    return localStorage.getItem('selectedVirtualTutor') || '/video/1.mp4';
+  // Steps are read from their recording when there is one, otherwise with speech synthesis
+  const {
+    audioRef,
+    audioElementRef,
+    isSpeaking: isAudioPlaying,
+    isPaused: isNarrationPaused,
+    play: playNarration,
+    pause: pauseNarration,
+    resume: resumeNarration,
+    stop: stopNarration,
+    source: narrationSource,
+    activeStep: narratedStep,
+    activeCues: narratedCues,
+    checkRecording,
+    canNarrate
+  } = useNarration({
+    rate: narrationRate,
+    voices: tutor.voice,
+    onEnded: step => handleNarrationEnded(step)
   });
+
+  // The tutor follows the loudness of recordings; speech synthesis can't be measured, so it just talks
+  const speechActivity = useSpeechActivity(audioRef, isAudioPlaying && narrationSource === 'recording');
+  const tutorVideoState: TutorVideoState = speechActivity || (isAudioPlaying ? 'talking' : 'idle');
+  
   const [showTutorSelectionModal, setShowTutorSelectionModal] = useState<boolean>(false);
   
   // State to track if initial state has been restored for the current worksheet/page
@@ -73,49 +116,69 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   const prevPageIndexRef = useRef<number>(pageIndex);
   
   const pdfContainerRef = useRef<HTMLDivElement>(null);
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
   const pdfRef = useRef<HTMLCanvasElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const textDisplayRef = useRef<HTMLDivElement>(null);
 
-  // Filter regions for current page and ensure description is properly split into paragraphs
-  const regions = useMemo(() => {
-    if (!worksheetMeta?.regions) return [];
-    return worksheetMeta.regions
-      .filter((region: RegionData) => region.page === pageIndex)
-      .map((region: RegionData) => {
-        let processedDescription: string[] = [];
-        
-        if (Array.isArray(region.description)) {
-          // If it's already an array, process each item to split by newlines
-          processedDescription = region.description.flatMap(item => 
-            typeof item === 'string' 
-              ? item.split('\n').filter(paragraph => paragraph.trim() !== '')
-              : []
-          );
-        } else if (typeof region.description === 'string') {
-          // If it's a string, split by newlines
-          processedDescription = region.description
-            .split('\n')
-            .filter(paragraph => paragraph.trim() !== '');
-        }
-        
-        return {
-          ...region,
-          description: processedDescription
-        };
-      });
-  }, [worksheetMeta, pageIndex]);
+  // Group regions by page once, so switching to a neighbouring page doesn't re-filter the whole document
+  const regionsByPage = useMemo(() => {
+    const grouped = new Map<number, RegionData[]>();
+    if (!worksheetMeta) return grouped;
+    getAllRegions(worksheetMeta).forEach((region: RegionData) => {
+      const pageRegions = grouped.get(region.page) || [];
+      pageRegions.push({ ...region, description: getRegionSteps(region) });
+      grouped.set(region.page, pageRegions);
+    });
+    return grouped;
+  }, [worksheetMeta]);
+
+  const regions = useMemo(() => regionsByPage.get(pageIndex) || [], [regionsByPage, pageIndex]);
+
+  // Right-to-left worksheets turn pages the other way, so swipes are mirrored for them
+  const worksheetDirection = useMemo(() => getTextDirection(
+    Array.from(regionsByPage.values()).flat().map(region => region.description?.join(' ') || '').join(' ')
+  ), [regionsByPage]);
+
+  // Regions with an audio manifest use it as is; older worksheets rely on the `{name}_{step}.mp3` file naming
+  const getStepAudio = useCallback((region: RegionData, stepIndex: number): RegionStepAudio | null => {
+    if (region.audio) return region.audio[stepIndex] || null;
+    return { url: `/audio/${worksheetId}/${region.name}_${stepIndex + 1}.mp3` };
+  }, [worksheetId]);
+
+  // Narration availability is per step: the tutor video shows whenever the current step can be read aloud
+  const activeStepAudioUrl = activeRegion ? getStepAudio(activeRegion, currentStepIndex)?.url || null : null;
+  const audioAvailable = !!activeRegion && canNarrate(activeStepAudioUrl);
+
+  useEffect(() => {
+    checkRecording(activeStepAudioUrl);
+  }, [activeStepAudioUrl, checkRecording]);
+
+  const playAudioSegment = useCallback((region: RegionData, stepIndex: number) => {
+    const text = region.description?.[stepIndex];
+    if (!text) return;
+    
+    const audio = getStepAudio(region, stepIndex);
+    playNarration({
+      key: `${region.id}_${stepIndex}`,
+      text,
+      audioUrl: audio?.url,
+      mimeType: audio?.mime_type,
+      transcript: audio?.transcript
+    });
+  }, [getStepAudio, playNarration]);
+
+  const isPageDrmProtected = useCallback((page: number) => {
+    const drmProtectedPages = worksheetMeta ? getDrmProtectedPages(worksheetMeta) : [];
+    return drmProtectedPages === true || (Array.isArray(drmProtectedPages) && drmProtectedPages.includes(page));
+  }, [worksheetMeta]);
 
   // Check if current page is DRM protected
   useEffect(() => {
     if (worksheetMeta) {
-      const { drmProtectedPages } = worksheetMeta;
-      const isDrmProtected = drmProtectedPages === true || 
-        (Array.isArray(drmProtectedPages) && drmProtectedPages.includes(pageIndex));
-      setIsCurrentPageDrmProtected(isDrmProtected);
+      setIsCurrentPageDrmProtected(isPageDrmProtected(pageIndex));
     }
-  }, [worksheetMeta, pageIndex]);
+  }, [worksheetMeta, pageIndex, isPageDrmProtected]);
 
   // Reset component state ONLY when worksheet or page genuinely changes
   useEffect(() => {
@@ -128,8 +191,6 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       setCurrentStepIndex(0);
       setDisplayedMessages([]);
       setIsTextMode(false);
-      setIsAudioPlaying(false);
-      setAudioCheckPerformed(false);
       setHasRestoredInitialState(false);
       
       // Notify parent about text mode change
@@ -137,21 +198,17 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
         onTextModeChange(false);
       }
       
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.currentTime = 0;
-      }
+      stopNarration();
       
       if (videoRef.current) {
         videoRef.current.pause();
-        videoRef.current.currentTime = 0;
       }
       
       // Update refs for next comparison
       prevWorksheetIdRef.current = worksheetId;
       prevPageIndexRef.current = pageIndex;
     }
-  }, [worksheetId, pageIndex, onTextModeChange]);
+  }, [worksheetId, pageIndex, onTextModeChange, stopNarration]);
 
   // Apply initial state restoration (only once when initialActiveRegion is provided and not yet restored)
   useEffect(() => {
@@ -173,9 +230,9 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
             onTextModeChange(true);
           }
           
-          // Start video if available
-          if (videoRef.current && audioAvailable) {
-            videoRef.current.currentTime = 0;
+          // Start video if it is already showing
+          if (videoRef.current) {
+            videoRef.current.currentTime = tutor.segments.idle.start;
             videoRef.current.play().catch(err => {
               // Suppress expected errors when video is removed from DOM
               if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
@@ -184,80 +241,17 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
             });
           }
           
-          // Play audio for current step if available
-          if (audioAvailable) {
-            setTimeout(() => {
-              playAudioSegment(matchingRegion.name, initialCurrentStepIndex);
-            }, 500);
-          }
+          // Narrate the current step
+          setTimeout(() => {
+            playAudioSegment(matchingRegion, initialCurrentStepIndex);
+          }, 500);
         }
         
         // Mark initial state as restored
         setHasRestoredInitialState(true);
       }
     }
-  }, [initialActiveRegion, initialCurrentStepIndex, regions, hasRestoredInitialState, onTextModeChange, audioAvailable]);
-
-  // Initial audio availability check - performed once when worksheet/page loads
-  useEffect(() => {
-    if (!audioCheckPerformed && regions.length > 0) {
-      const firstRegion = regions[0];
-      if (!firstRegion || !firstRegion.name) {
-        setAudioAvailable(false);
-        setAudioCheckPerformed(true);
-        return;
-      }
-      
-      const audioPath = `/audio/${worksheetId}/${firstRegion.name}_1.mp3`;
-      
-      // Create a temporary audio object for testing
-      const testAudio = new Audio();
-      let checkCompleted = false;
-      
-      const completeCheck = (available: boolean) => {
-        if (checkCompleted) return;
-        checkCompleted = true;
-        
-        setAudioAvailable(available);
-        setAudioCheckPerformed(true);
-        
-        // Clean up event listeners
-        testAudio.removeEventListener('canplaythrough', handleCanPlay);
-        testAudio.removeEventListener('error', handleError);
-      };
-      
-      const handleCanPlay = () => {
-        completeCheck(true);
-      };
-      
-      const handleError = () => {
-        completeCheck(false);
-      };
-      
-      // Set up event listeners
-      testAudio.addEventListener('canplaythrough', handleCanPlay);
-      testAudio.addEventListener('error', handleError);
-      
-      // Set timeout to handle cases where neither event fires
-      const timeout = setTimeout(() => {
-        completeCheck(false);
-      }, 3000); // 3 second timeout
-      
-      // Start the test
-      testAudio.src = audioPath;
-      testAudio.load();
-      
-      // Cleanup function
-      return () => {
-        clearTimeout(timeout);
-        testAudio.removeEventListener('canplaythrough', handleCanPlay);
-        testAudio.removeEventListener('error', handleError);
-        if (!checkCompleted) {
-          testAudio.src = '';
-        }
-      };
-    }
-  }, [worksheetId, pageIndex, regions, audioCheckPerformed]);
+  }, [initialActiveRegion, initialCurrentStepIndex, regions, hasRestoredInitialState, onTextModeChange, tutor.segments.idle.start, playAudioSegment]);
 
   // Notify parent when region state changes
   useEffect(() => {
@@ -269,11 +263,7 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   const handleMessageClick = (index: number) => {
     if (!activeRegion || !audioAvailable) return;
     
-    if (audioRef.current) {
-      audioRef.current.pause();
-    }
-    
-    playAudioSegment(activeRegion.name, index);
+    playAudioSegment(activeRegion, index);
     
     const messageElement = document.querySelector(`[data-message-index="${index}"]`);
     if (messageElement) {
@@ -325,66 +315,84 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     }
   }, [displayedMessages]);
 
+  // Move the tutor video to the idle, talking or emphasis segment as soon as its state changes
   useEffect(() => {
-    if (!videoRef.current || !audioRef.current) return;
-    
     const video = videoRef.current;
-    const audio = audioRef.current;
-    
-    const handleAudioPlaying = () => {
-      setIsAudioPlaying(true);
-      
-      // Check if video element still exists before attempting to play
-      if (videoRef.current && video.paused) {
-        video.currentTime = 10;
-        video.play().catch(err => {
-          // Suppress expected errors when video is removed from DOM or interrupted
-          if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-            // Suppress non-debug logs
-          }
-        });
-      }
-    };
+    if (!video) return;
     
-    const handleAudioPause = () => {
-      setIsAudioPlaying(false);
-    };
+    const seekTime = getTutorLoopSeekTime(tutor, video.currentTime, tutorVideoState);
+    if (seekTime !== null) {
+      video.currentTime = seekTime;
+    }
+    if (tutorVideoState !== 'idle' && video.paused) {
+      video.play().catch(err => {
+        // Suppress expected errors when video is removed from DOM or interrupted
+        if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
+          // Suppress non-debug logs
+        }
+      });
+    }
+  }, [tutorVideoState, tutor]);
+
+  useEffect(() => {
+    if (!videoRef.current) return;
     
-    const handleAudioEnded = () => {
-      setIsAudioPlaying(false);
-    };
+    const video = videoRef.current;
     
     const handleVideoTimeUpdate = () => {
-      if (video.currentTime >= 20) {
-        video.currentTime = 10;
-      }
-      
-      if (video.currentTime >= 9.9 && !isAudioPlaying) {
-        video.currentTime = 0;
-      }
-      
-      if (isAudioPlaying && video.currentTime < 10) {
-        video.currentTime = 10;
+      const seekTime = getTutorLoopSeekTime(tutor, video.currentTime, tutorVideoState);
+      if (seekTime !== null) {
+        video.currentTime = seekTime;
       }
     };
     
-    audio.addEventListener('playing', handleAudioPlaying);
-    audio.addEventListener('pause', handleAudioPause);
-    audio.addEventListener('ended', handleAudioEnded);
     video.addEventListener('timeupdate', handleVideoTimeUpdate);
     
     return () => {
-      audio.removeEventListener('playing', handleAudioPlaying);
-      audio.removeEventListener('pause', handleAudioPause);
-      audio.removeEventListener('ended', handleAudioEnded);
       video.removeEventListener('timeupdate', handleVideoTimeUpdate);
     };
-  }, [videoRef.current, audioRef.current, isAudioPlaying]);
+  }, [audioAvailable, tutorVideoState, tutor]);
 
-  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
-    setNumPages(numPages);
+  const onDocumentLoadSuccess = (pdf: PDFDocumentProxy) => {
+    setPdfDocument(pdf);
+    setNumPages(pdf.numPages);
   };
 
+  // The thumbnails render from the loaded document, which is discarded when another one loads
+  useEffect(() => {
+    setPdfDocument(null);
+  }, [pdfUrl]);
+
+  // Prefetch neighbouring pages so page navigation renders without waiting on pdf.js
+  useEffect(() => {
+    const pdf = pdfDocument;
+    if (!pdf || !numPages) return;
+    
+    for (let offset = -PREFETCH_PAGE_RADIUS; offset <= PREFETCH_PAGE_RADIUS; offset++) {
+      const neighbourPage = pageIndex + offset;
+      if (offset !== 0 && neighbourPage >= 1 && neighbourPage <= numPages) {
+        pdf.getPage(neighbourPage).catch(() => {
+          // Prefetching is best-effort; the page will be loaded again when navigated to
+        });
+      }
+    }
+  }, [pageIndex, numPages, pdfDocument]);
+
+  const goToPage = useCallback((page: number) => {
+    if (!onPageChange || !numPages || page < 1 || page > numPages || page === pageIndex) return;
+    onPageChange(page);
+  }, [onPageChange, numPages, pageIndex]);
+
+  const goToPreviousPage = useCallback(() => goToPage(pageIndex - 1), [goToPage, pageIndex]);
+  const goToNextPage = useCallback(() => goToPage(pageIndex + 1), [goToPage, pageIndex]);
+
+  useSwipeNavigation(pdfContainerRef, {
+    onSwipeLeft: goToNextPage,
+    onSwipeRight: goToPreviousPage,
+    direction: worksheetDirection,
+    enabled: !isTextMode && !!onPageChange
+  });
+
   const onDocumentLoadError = (err: Error) => {
     toast({
       title: "PDF Error",
@@ -416,22 +424,6 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     }, 100);
   };
   
-  const playAudioSegment = (regionName: string, stepIndex: number) => {
-    if (!audioRef.current) return;
-    
-    const audioPath = `/audio/${worksheetId}/${regionName}_${stepIndex + 1}.mp3`;
-    
-    audioRef.current.src = audioPath;
-    
-    audioRef.current.onerror = () => {
-      setIsAudioPlaying(false);
-    };
-    
-    audioRef.current.play().catch(err => {
-      setIsAudioPlaying(false);
-    });
-  };
-  
   const handleRegionClick = (region: RegionData) => {
     console.log('🔍 [DEBUG] Region clicked:', region.id);
     
@@ -453,8 +445,8 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       const messagesToDisplay = region.description.slice(0, startingStepIndex + 1);
       setDisplayedMessages(messagesToDisplay);
       
-      if (videoRef.current && audioAvailable) {
-        videoRef.current.currentTime = 0;
+      if (videoRef.current) {
+        videoRef.current.currentTime = tutor.segments.idle.start;
         videoRef.current.play().catch(err => {
           // Suppress expected errors when video is removed from DOM
           if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
@@ -463,18 +455,17 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
         });
       }
       
-      // Only try to play audio if it's available (based on initial check)
-      if (audioAvailable) {
-        setTimeout(() => {
-          playAudioSegment(region.name, startingStepIndex);
-        }, 500);
-      }
+      setTimeout(() => {
+        playAudioSegment(region, startingStepIndex);
+      }, 500);
     } else {
       setDisplayedMessages([]);
     }
     
     setActiveRegion(region);
     setIsTextMode(true);
+    // A region picked by the user supersedes any pending initial state (e.g. a deep link)
+    setHasRestoredInitialState(true);
     
     // Notify parent about text mode change
     if (onTextModeChange) {
@@ -484,9 +475,7 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   
   const handleNextStep = () => {
     if (activeRegion && activeRegion.description && currentStepIndex < activeRegion.description.length - 1) {
-      if (audioRef.current) {
-        audioRef.current.pause();
-      }
+      stopNarration();
       
       const nextStepIndex = currentStepIndex + 1;
       console.log('🔍 [DEBUG] Advancing to next step:', nextStepIndex, 'for region:', activeRegion.id);
@@ -498,15 +487,31 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
         activeRegion.description[nextStepIndex]
       ]);
       
-      // Only try to play audio if it's available (based on initial check)
-      if (audioAvailable) {
-        setTimeout(() => {
-          playAudioSegment(activeRegion.name, nextStepIndex);
-        }, 500);
-      }
+      setTimeout(() => {
+        playAudioSegment(activeRegion, nextStepIndex);
+      }, 500);
     }
   };
   
+  // Auto-advance follows the newest step only, not a replay of an earlier message
+  const handleNarrationEnded = (step: NarrationStep | null) => {
+    if (autoAdvance && activeRegion && step?.key === `${activeRegion.id}_${currentStepIndex}`) {
+      handleNextStep();
+    }
+  };
+
+  const handleNarrationPlayPause = () => {
+    if (!activeRegion) return;
+    
+    if (isAudioPlaying) {
+      pauseNarration();
+    } else if (isNarrationPaused) {
+      resumeNarration();
+    } else {
+      playAudioSegment(activeRegion, currentStepIndex);
+    }
+  };
+
   const handleBackButtonClick = () => {
     setIsTextMode(false);
     
@@ -520,22 +525,15 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     setCurrentStepIndex(0);
     setDisplayedMessages([]);
     
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
-    }
+    stopNarration();
     
     if (videoRef.current) {
       videoRef.current.pause();
     }
-    
-    setIsAudioPlaying(false);
   };
 
-  const handleTutorSelected = (videoUrl: string) => {
-    setSelectedTutorVideoUrl(videoUrl);
-    // Persist the selected tutor as the new default
-    localStorage.setItem('selectedVirtualTutor', videoUrl);
+  const handleTutorSelected = (selectedTutor: VirtualTutor) => {
+    selectTutor(selectedTutor);
     setShowTutorSelectionModal(false);
     
     // Reload the video with the new source
@@ -557,13 +555,14 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   };
   
   const hasNextStep = activeRegion?.description && currentStepIndex < activeRegion.description.length - 1;
+  const canNavigatePages = !!onPageChange && !!numPages && numPages > 1 && !isTextMode;
 
   return (
     <div 
       className={`worksheet-container ${isTextMode ? 'text-mode' : ''}`} 
       ref={pdfContainerRef}
     >
-      <audio ref={audioRef} className="hidden" />
+      <audio ref={audioElementRef} className="hidden" />
       
       {isTextMode && (
         <Button
@@ -672,7 +671,8 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
             <video 
               ref={videoRef}
               className="video-element"
-              src={selectedTutorVideoUrl}
+              src={tutor.videoSrc}
+              poster={tutor.posterSrc}
               muted
               autoPlay
               playsInline
@@ -681,6 +681,18 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
             />
           )}
           
+          {audioAvailable && (
+            <NarrationControlBar
+              isPlaying={isAudioPlaying}
+              rate={narrationRate}
+              autoAdvance={autoAdvance}
+              onPlayPause={handleNarrationPlayPause}
+              onReplay={() => playAudioSegment(activeRegion, currentStepIndex)}
+              onRateChange={rate => updateNarrationSettings({ rate })}
+              onAutoAdvanceChange={value => updateNarrationSettings({ autoAdvance: value })}
+            />
+          )}
+          
           <div 
             className="worksheet-text-display"
             ref={textDisplayRef}
@@ -701,7 +713,12 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
                     }
                   }}
                 >
-                  <p>{message}</p>
+                  <KaraokeText
+                    text={message}
+                    cues={narratedStep?.key === `${activeRegion.id}_${index}` ? narratedCues : null}
+                    audioRef={audioRef}
+                    isPlaying={isAudioPlaying && narrationSource === 'recording' && narratedStep?.key === `${activeRegion.id}_${index}`}
+                  />
                 </div>
               ))}
             </div>
@@ -721,9 +738,45 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       
       {numPages && numPages > 0 && (
         <div className="worksheet-info">
-          <p className="text-sm text-gray-500 mt-2" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
-            {t('worksheet.pageInfo', { current: pageIndex, total: numPages })}
-          </p>
+          <div className="flex items-center justify-center gap-2 mt-2">
+            {canNavigatePages && (
+              <Button
+                onClick={goToPreviousPage}
+                disabled={pageIndex <= 1}
+                variant="outline"
+                size="icon"
+                className="rounded-full h-8 w-8"
+                aria-label={t('worksheet.previousPage')}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <p className="text-sm text-gray-500" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
+              {t('worksheet.pageInfo', { current: pageIndex, total: numPages })}
+            </p>
+            {canNavigatePages && (
+              <Button
+                onClick={goToNextPage}
+                disabled={pageIndex >= numPages}
+                variant="outline"
+                size="icon"
+                className="rounded-full h-8 w-8"
+                aria-label={t('worksheet.nextPage')}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          
+          {canNavigatePages && pdfDocument && (
+            <PageThumbnailStrip
+              pdf={pdfDocument}
+              numPages={numPages}
+              currentPage={pageIndex}
+              onSelectPage={goToPage}
+              isPageProtected={isPageDrmProtected}
+            />
+          )}
         </div>
       )}
       
@@ -731,6 +784,8 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       <VirtualTutorSelectionModal
         isOpen={showTutorSelectionModal}
         onClose={() => setShowTutorSelectionModal(false)}
+        tutors={tutors}
+        selectedTutorId={tutor.id}
         onSelectTutor={handleTutorSelected}
       />
     </div>
@@ -0,0 +1,38 @@
+import { useCallback } from 'react'
+import { toast } from '@/components/ui/use-toast'
+import { getLlmProvider } from '@/lib/llmProvider'
+
+/**
+ * Asks the learner for an API key when the AI provider needs one: Gemini, a server that wants
+ * a key, or the tutor proxy after falling back to Gemini. Keys are never built into the app.
+ * Returns false when the provider still can't be used.
+ */
+export const useApiKeyPrompt = () =>
+  useCallback((): boolean => {
+    const provider = getLlmProvider()
+    if (!provider.needsApiKey()) return true
+
+    const isGemini = provider.name === 'gemini'
+    const userApiKey = prompt(isGemini
+      ? 'Please enter your Google Gemini API key to use AI chat:\n\n' +
+        'You can get your API key from: https://aistudio.google.com/app/apikey'
+      : 'Please enter the API key for your school\'s AI server to use AI chat:'
+    )
+
+    if (!userApiKey?.trim()) {
+      toast({
+        title: 'API Key Required',
+        description: 'You need to provide an API key to use AI chat.',
+        variant: 'destructive'
+      })
+      return false
+    }
+
+    provider.setApiKey?.(userApiKey.trim())
+
+    toast({
+      title: 'API Key Saved',
+      description: 'Your API key has been saved successfully.'
+    })
+    return true
+  }, [])
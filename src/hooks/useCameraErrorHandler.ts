@@ -0,0 +1,21 @@
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from '@/components/ui/use-toast'
+
+/**
+ * Tells the learner the camera couldn't be opened (usually because permission was denied) and
+ * returns the message to show in place of the camera view
+ */
+export const useCameraErrorHandler = () => {
+  const { t } = useTranslation()
+
+  return useCallback((error: Error): string => {
+    console.error(error)
+    toast({
+      title: t('camera.error'),
+      description: t('camera.errorDesc'),
+      variant: 'destructive'
+    })
+    return t('camera.errorAccessing', { message: error.message })
+  }, [t])
+}
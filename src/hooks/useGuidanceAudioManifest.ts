@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query'
+import { loadGuidanceAudioManifest } from '@/lib/guidanceAudio'
+
+export const useGuidanceAudioManifest = (worksheetId: string) => {
+  return useQuery({
+    queryKey: ['guidanceAudioManifest', worksheetId],
+    queryFn: () => loadGuidanceAudioManifest(worksheetId),
+    enabled: !!worksheetId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
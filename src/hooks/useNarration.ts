@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  checkRecordingAvailable,
+  getSpeechLanguage,
+  isSpeechSynthesisSupported,
+  markRecordingUnavailable,
+  speakText
+} from '@/lib/narration'
+import { loadSidecarTranscript } from '@/lib/wordTiming'
+import { prepareAudioAnalysis, resumeAudioAnalysis } from '@/lib/audioLevel'
+import type { TranscriptCue } from '@/types/worksheet'
+
+export interface NarrationStep {
+  /** Identifies the step, so callers can tell which one is being narrated */
+  key?: string
+  text: string
+  /** Recorded audio for the step, if it has any */
+  audioUrl?: string | null
+  /** Format of the recording; one the browser can't play is read with speech instead */
+  mimeType?: string
+  /** Word timings for the recording; otherwise looked up in a file next to it */
+  transcript?: TranscriptCue[]
+}
+
+export type NarrationSource = 'recording' | 'speech'
+
+interface NarrationOptions {
+  /** Playback speed, where 1 is normal speed */
+  rate?: number
+  /** Preferred speech synthesis voice name per language code */
+  voices?: Record<string, string>
+  /** Called when a step has been narrated to the end (not when it was stopped) */
+  onEnded?: (step: NarrationStep) => void
+}
+
+/**
+ * Plays worksheet steps through the `<audio>` element given `audioElementRef` (and read back
+ * through `audioRef`), falling back to speech synthesis for steps without a recording. `isSpeaking` covers both, so the tutor video
+ * can follow narration whatever its source.
+ */
+export const useNarration = ({ rate = 1, voices, onEnded }: NarrationOptions = {}) => {
+  const { i18n } = useTranslation()
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  // Kept in state too, so the element's listeners are attached whenever it is mounted
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null)
+  const cancelSpeechRef = useRef<(() => void) | null>(null)
+  // Incremented on every play/stop so a slow availability check can't start a stale step
+  const playRequestRef = useRef(0)
+  const activeStepRef = useRef<NarrationStep | null>(null)
+  const rateRef = useRef(rate)
+  const voicesRef = useRef(voices)
+  const onEndedRef = useRef(onEnded)
+  rateRef.current = rate
+  voicesRef.current = voices
+  onEndedRef.current = onEnded
+
+  const [isSpeaking, setIsSpeaking] = useState(false)
+  const [isPaused, setIsPaused] = useState(false)
+  const [source, setSource] = useState<NarrationSource | null>(null)
+  const [activeStep, setActiveStep] = useState<NarrationStep | null>(null)
+  // Word timings of the active step's recording, when it has any
+  const [activeCues, setActiveCues] = useState<TranscriptCue[] | null>(null)
+  const [recordings, setRecordings] = useState<Record<string, boolean>>({})
+  const speechSupported = isSpeechSynthesisSupported()
+
+  const setRecordingAvailable = useCallback((audioUrl: string, available: boolean) => {
+    setRecordings(current => current[audioUrl] === available ? current : { ...current, [audioUrl]: available })
+  }, [])
+
+  const stop = useCallback(() => {
+    playRequestRef.current++
+    if (audioRef.current) {
+      audioRef.current.onerror = null
+      audioRef.current.pause()
+    }
+    if (cancelSpeechRef.current) {
+      cancelSpeechRef.current()
+      cancelSpeechRef.current = null
+    }
+    setIsSpeaking(false)
+    setIsPaused(false)
+  }, [])
+
+  const speak = useCallback((text: string, requestId: number) => {
+    if (!speechSupported || requestId !== playRequestRef.current) return
+    setSource('speech')
+    const language = getSpeechLanguage(text, i18n.language)
+    const voiceName = voicesRef.current?.[language]
+    cancelSpeechRef.current = speakText(text, { language, rate: rateRef.current, voiceName }, {
+      onStart: () => setIsSpeaking(true),
+      onEnd: completed => {
+        setIsSpeaking(false)
+        if (completed && requestId === playRequestRef.current) {
+          setIsPaused(false)
+          onEndedRef.current?.(activeStepRef.current)
+        }
+      }
+    })
+  }, [speechSupported, i18n.language])
+
+  const play = useCallback(async (step: NarrationStep) => {
+    stop()
+    const requestId = playRequestRef.current
+    activeStepRef.current = step
+    setActiveStep(step)
+    setActiveCues(null)
+
+    const hasRecording = step.audioUrl ? await checkRecordingAvailable(step.audioUrl) : false
+    if (requestId !== playRequestRef.current) return
+    if (step.audioUrl) setRecordingAvailable(step.audioUrl, hasRecording)
+
+    const audio = audioRef.current
+    if (!hasRecording || !audio || (step.mimeType && !audio.canPlayType(step.mimeType))) {
+      speak(step.text, requestId)
+      return
+    }
+
+    setSource('recording')
+    if (step.transcript) {
+      setActiveCues(step.transcript)
+    } else {
+      loadSidecarTranscript(step.audioUrl).then(cues => {
+        if (requestId === playRequestRef.current) setActiveCues(cues)
+      })
+    }
+
+    let hasFallenBack = false
+    const fallBackToSpeech = () => {
+      if (hasFallenBack) return
+      hasFallenBack = true
+      markRecordingUnavailable(step.audioUrl)
+      setRecordingAvailable(step.audioUrl, false)
+      speak(step.text, requestId)
+    }
+
+    // Recordings play through an analyser when they can, so the tutor can follow their loudness.
+    // checkRecordingAvailable has fetched this one, which cross-origin only works with CORS.
+    prepareAudioAnalysis(audio, step.audioUrl, true)
+    audio.src = step.audioUrl
+    // Loading a new source resets the playback rate to the default one
+    audio.defaultPlaybackRate = rateRef.current
+    audio.playbackRate = rateRef.current
+    audio.onerror = fallBackToSpeech
+    audio.play().catch(error => {
+      // Blocked autoplay would block speech too; anything else means the file is unusable
+      if (error.name !== 'NotAllowedError' && error.name !== 'AbortError') {
+        fallBackToSpeech()
+      }
+    })
+  }, [stop, speak, setRecordingAvailable])
+
+  const pause = useCallback(() => {
+    if (source === 'recording') {
+      audioRef.current?.pause()
+    } else if (isSpeechSynthesisSupported()) {
+      window.speechSynthesis.pause()
+    }
+    setIsSpeaking(false)
+    setIsPaused(true)
+  }, [source])
+
+  const resume = useCallback(() => {
+    setIsPaused(false)
+    if (source === 'recording' && audioRef.current) {
+      resumeAudioAnalysis(audioRef.current)
+      audioRef.current.play().catch(() => {
+        // Playback was interrupted; the learner can replay the step
+      })
+    } else if (isSpeechSynthesisSupported()) {
+      window.speechSynthesis.resume()
+      setIsSpeaking(true)
+    }
+  }, [source])
+
+  // Recordings change speed immediately; speech picks up the new rate from the next step
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.defaultPlaybackRate = rate
+      audioRef.current.playbackRate = rate
+    }
+  }, [rate])
+
+  /**
+   * Looks up whether a step has a recording, so `canNarrate` can answer without playing it
+   */
+  const checkRecording = useCallback((audioUrl: string | null | undefined) => {
+    if (!audioUrl) return
+    checkRecordingAvailable(audioUrl).then(available => setRecordingAvailable(audioUrl, available))
+  }, [setRecordingAvailable])
+
+  /**
+   * True when a step can be narrated: it has a recording, or speech synthesis can read it
+   */
+  const canNarrate = useCallback((audioUrl: string | null | undefined) => {
+    return speechSupported || (!!audioUrl && recordings[audioUrl] === true)
+  }, [speechSupported, recordings])
+
+  const audioElementRef = useCallback((element: HTMLAudioElement | null) => {
+    audioRef.current = element
+    setAudioElement(element)
+  }, [])
+
+  useEffect(() => {
+    const audio = audioElement
+    if (!audio) return
+
+    const handlePlaying = () => {
+      setIsSpeaking(true)
+      setIsPaused(false)
+    }
+    const handleStopped = () => setIsSpeaking(false)
+    const handleEnded = () => {
+      setIsSpeaking(false)
+      setIsPaused(false)
+      onEndedRef.current?.(activeStepRef.current)
+    }
+
+    audio.addEventListener('playing', handlePlaying)
+    audio.addEventListener('pause', handleStopped)
+    audio.addEventListener('ended', handleEnded)
+
+    return () => {
+      audio.removeEventListener('playing', handlePlaying)
+      audio.removeEventListener('pause', handleStopped)
+      audio.removeEventListener('ended', handleEnded)
+    }
+  }, [audioElement])
+
+  // Don't keep talking after the viewer is gone
+  useEffect(() => stop, [stop])
+
+  return { audioRef, audioElementRef, isSpeaking, isPaused, source, activeStep, activeCues, play, pause, resume, stop, checkRecording, canNarrate }
+}
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react'
+import { getPreference, setPreference } from '@/lib/progressStore'
+import type { NarrationSettings } from '@/types/progress'
+
+export const NARRATION_RATES = [0.75, 1, 1.25, 1.5]
+
+const DEFAULT_NARRATION_SETTINGS: NarrationSettings = {
+  rate: 1,
+  autoAdvance: false
+}
+
+/**
+ * The learner's narration speed and auto-advance choice, saved with their other preferences
+ */
+export const useNarrationSettings = () => {
+  const [settings, setSettings] = useState<NarrationSettings>(DEFAULT_NARRATION_SETTINGS)
+
+  useEffect(() => {
+    let cancelled = false
+    getPreference('narrationSettings')
+      .then(savedSettings => {
+        if (!cancelled && savedSettings) {
+          setSettings({ ...DEFAULT_NARRATION_SETTINGS, ...savedSettings })
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load narration settings:', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const updateSettings = useCallback((changes: Partial<NarrationSettings>) => {
+    const nextSettings = { ...settings, ...changes }
+    setSettings(nextSettings)
+    setPreference('narrationSettings', nextSettings).catch(error => {
+      console.warn('Failed to save narration settings:', error)
+    })
+  }, [settings])
+
+  return { ...settings, updateSettings }
+}
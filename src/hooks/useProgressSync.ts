@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react'
+import {
+  getProgressSyncStatus,
+  subscribeToProgressSyncStatus,
+  isProgressSyncAvailable,
+} from '@/lib/progressSync'
+
+/**
+ * Current progress sync status, re-rendering as syncs start and finish
+ */
+export const useProgressSync = () => {
+  const status = useSyncExternalStore(subscribeToProgressSyncStatus, getProgressSyncStatus)
+  return { ...status, isAvailable: isProgressSyncAvailable() }
+}
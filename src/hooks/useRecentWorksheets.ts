@@ -0,0 +1,83 @@
+import { useEffect, useMemo } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { listRecentWorksheets, recordWorksheetVisit } from '@/lib/recentWorksheets'
+import { getRegionSteps, getGuidanceSteps } from '@/lib/worksheetSteps'
+import { getGuidanceItemKey } from '@/lib/worksheetLinks'
+import { getAllRegions, getAllGuidancePages, getPageGuidance, getDocumentName } from '@/lib/worksheetPages'
+import { isAutoModeMetadata, isHybridModeMetadata } from '@/types/worksheet'
+import type { WorksheetMetadata, RegionData, AutoModeGuidanceItem } from '@/types/worksheet'
+
+export const RECENT_WORKSHEETS_QUERY_KEY = ['recentWorksheets']
+
+export const useRecentWorksheets = () => {
+  return useQuery({
+    queryKey: RECENT_WORKSHEETS_QUERY_KEY,
+    queryFn: () => listRecentWorksheets(),
+    staleTime: 0,
+    retry: false,
+  })
+}
+
+/**
+ * Counts every step in the worksheet, used as the denominator for progress
+ */
+const countTotalSteps = (meta: WorksheetMetadata): number => {
+  const guidanceSteps = getAllGuidancePages(meta).reduce(
+    (sum, page) => sum + page.guidance.reduce((pageSum, item) => pageSum + getGuidanceSteps(item).length, 0),
+    0
+  )
+  const regionSteps = getAllRegions(meta).reduce((sum, region) => sum + getRegionSteps(region).length, 0)
+  return guidanceSteps + regionSteps
+}
+
+/**
+ * Records the learner's position in a worksheet so the home screen can offer to resume it
+ */
+export const useRecordRecentWorksheet = (
+  worksheetId: string | undefined,
+  page: number,
+  meta: WorksheetMetadata | undefined,
+  activeRegion: RegionData | null,
+  activeGuidanceItem: AutoModeGuidanceItem | null,
+  stepIndex: number
+) => {
+  const queryClient = useQueryClient()
+  const totalSteps = useMemo(() => (meta ? countTotalSteps(meta) : 0), [meta])
+
+  useEffect(() => {
+    if (!worksheetId || !meta || isNaN(page)) return
+
+    const region = activeRegion
+    const guidanceItem = activeRegion ? null : activeGuidanceItem
+
+    let activeItemStepsSeen: { key: string; count: number } | null = null
+    if (region) {
+      activeItemStepsSeen = {
+        key: `${page}_${region.id}`,
+        count: Math.min(stepIndex + 1, getRegionSteps(region).length),
+      }
+    } else if (guidanceItem) {
+      activeItemStepsSeen = {
+        key: `${page}_${guidanceItem.title}`,
+        count: Math.min(stepIndex + 1, getGuidanceSteps(guidanceItem).length),
+      }
+    }
+
+    recordWorksheetVisit({
+      worksheetId,
+      documentName: getDocumentName(meta) || worksheetId,
+      mode: isAutoModeMetadata(meta) ? 'auto' : isHybridModeMetadata(meta) ? 'hybrid' : 'regions',
+      lastPage: page,
+      lastActiveRegionId: region?.id || null,
+      lastActiveGuidanceKey: guidanceItem ? getGuidanceItemKey(getPageGuidance(meta, page), guidanceItem) : null,
+      lastActiveLabel: region?.name || guidanceItem?.title || null,
+      lastStepIndex: region || guidanceItem ? stepIndex : 0,
+      totalSteps,
+      activeItemStepsSeen,
+    })
+      .then(() => queryClient.invalidateQueries({ queryKey: RECENT_WORKSHEETS_QUERY_KEY }))
+      .catch(error => {
+        console.warn('Failed to record recent worksheet:', error)
+      })
+  }, [worksheetId, page, meta, activeRegion, activeGuidanceItem, stepIndex, totalSteps, queryClient])
+}
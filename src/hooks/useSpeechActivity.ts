@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import type { RefObject } from 'react'
+import { readAudioLevel } from '@/lib/audioLevel'
+import type { TutorVideoState } from '@/types/tutor'
+
+// Loudness (RMS) above which the recording counts as speech, and as emphasised speech
+const TALKING_LEVEL = 0.03
+const EMPHASIS_LEVEL = 0.2
+// How long a state is held after the level drops, so short gaps between syllables don't flicker
+const TALKING_HOLD_MS = 250
+const EMPHASIS_HOLD_MS = 400
+
+/**
+ * Follows the loudness of the recording playing in `audioRef` while `isActive` is true,
+ * returning whether the narrator is quiet, talking or emphasising. Returns null when the
+ * recording can't be analysed, so callers can fall back to whether narration is playing.
+ */
+export const useSpeechActivity = (audioRef: RefObject<HTMLAudioElement>, isActive: boolean): TutorVideoState | null => {
+  const [activity, setActivity] = useState<TutorVideoState | null>(null)
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!isActive || !audio) {
+      setActivity(null)
+      return
+    }
+
+    let frame = 0
+    let lastTalkingAt = -Infinity
+    let lastEmphasisAt = -Infinity
+    // The state is only set when it changes, not on every frame
+    let reported: TutorVideoState | null | undefined
+
+    const update = (now: number) => {
+      const level = readAudioLevel(audio)
+      let next: TutorVideoState | null = null
+      if (level !== null) {
+        if (level >= TALKING_LEVEL) lastTalkingAt = now
+        if (level >= EMPHASIS_LEVEL) lastEmphasisAt = now
+        next = now - lastEmphasisAt < EMPHASIS_HOLD_MS ? 'emphasis'
+          : now - lastTalkingAt < TALKING_HOLD_MS ? 'talking'
+            : 'idle'
+      }
+      if (next !== reported) {
+        reported = next
+        setActivity(next)
+      }
+      frame = requestAnimationFrame(update)
+    }
+    frame = requestAnimationFrame(update)
+
+    return () => cancelAnimationFrame(frame)
+  }, [audioRef, isActive])
+
+  return activity
+}
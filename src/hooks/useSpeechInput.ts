@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getSpeechRecognizer } from '@/lib/speechRecognition'
+import type { SpeechRecognitionSession } from '@/lib/speechRecognition'
+
+interface SpeechInputOptions {
+  /** Called with the whole transcript when the learner lets go, if anything was heard */
+  onFinished: (transcript: string) => void
+}
+
+/**
+ * Push-to-talk dictation: `start` while the talk button is held and `stop` when it's released.
+ * `transcript` follows what has been heard so far, so it can be shown while listening.
+ */
+export const useSpeechInput = ({ onFinished }: SpeechInputOptions) => {
+  const sessionRef = useRef<SpeechRecognitionSession | null>(null)
+  const sessionIdRef = useRef(0)
+  const transcriptRef = useRef('')
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  const [isListening, setIsListening] = useState(false)
+  const [transcript, setTranscript] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const isSupported = getSpeechRecognizer().isSupported()
+
+  const start = useCallback((language: string) => {
+    if (sessionRef.current) return
+    transcriptRef.current = ''
+    setTranscript('')
+    setError(null)
+    setIsListening(true)
+
+    // Bumped by cancel, so a cancelled session's late end is ignored
+    const sessionId = ++sessionIdRef.current
+    let hasEnded = false
+
+    const session = getSpeechRecognizer().start(language, {
+      onTranscript: text => {
+        if (sessionId !== sessionIdRef.current) return
+        transcriptRef.current = text
+        setTranscript(text)
+      },
+      onEnd: endError => {
+        hasEnded = true
+        if (sessionId !== sessionIdRef.current) return
+        sessionRef.current = null
+        setIsListening(false)
+        setTranscript('')
+        if (endError) {
+          console.warn('Speech recognition failed:', endError)
+          setError(endError)
+        }
+        if (transcriptRef.current) onFinishedRef.current(transcriptRef.current)
+      }
+    })
+    // Recognizers may end straight away (e.g. when unsupported), before returning the session
+    if (!hasEnded) sessionRef.current = session
+  }, [])
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop()
+  }, [])
+
+  const cancel = useCallback(() => {
+    const session = sessionRef.current
+    if (!session) return
+    sessionRef.current = null
+    sessionIdRef.current++
+    session.abort()
+    setIsListening(false)
+    setTranscript('')
+  }, [])
+
+  // Stop listening when the chat is left
+  useEffect(() => cancel, [cancel])
+
+  return { isSupported, isListening, transcript, error, start, stop, cancel }
+}
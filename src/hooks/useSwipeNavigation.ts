@@ -0,0 +1,71 @@
+import { useEffect, type RefObject } from 'react'
+
+const MIN_SWIPE_DISTANCE = 60
+const MAX_SWIPE_DURATION = 600
+
+interface SwipeNavigationOptions {
+  onSwipeLeft?: () => void;
+  onSwipeRight?: () => void;
+  /** In `rtl` content swipes are mirrored: a swipe to the right counts as `onSwipeLeft` */
+  direction?: 'ltr' | 'rtl';
+  enabled?: boolean;
+}
+
+/**
+ * Detects horizontal one-finger swipes on an element.
+ * Pinch gestures and swipes while the page is zoomed in are ignored so they don't fight with panning.
+ */
+export const useSwipeNavigation = (
+  ref: RefObject<HTMLElement>,
+  { onSwipeLeft, onSwipeRight, direction = 'ltr', enabled = true }: SwipeNavigationOptions
+) => {
+  useEffect(() => {
+    const element = ref.current
+    if (!element || !enabled) return
+
+    let start: { x: number; y: number; time: number } | null = null
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 1) {
+        start = null
+        return
+      }
+      const touch = e.touches[0]
+      start = { x: touch.clientX, y: touch.clientY, time: Date.now() }
+    }
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (!start || e.changedTouches.length !== 1) return
+
+      const touch = e.changedTouches[0]
+      const dx = (touch.clientX - start.x) * (direction === 'rtl' ? -1 : 1)
+      const dy = touch.clientY - start.y
+      const duration = Date.now() - start.time
+      start = null
+
+      const isZoomed = (window.visualViewport?.scale ?? 1) > 1.01
+      if (isZoomed || duration > MAX_SWIPE_DURATION) return
+      if (Math.abs(dx) < MIN_SWIPE_DISTANCE || Math.abs(dx) < Math.abs(dy) * 2) return
+
+      if (dx < 0) {
+        onSwipeLeft?.()
+      } else {
+        onSwipeRight?.()
+      }
+    }
+
+    const handleTouchCancel = () => {
+      start = null
+    }
+
+    element.addEventListener('touchstart', handleTouchStart, { passive: true })
+    element.addEventListener('touchend', handleTouchEnd, { passive: true })
+    element.addEventListener('touchcancel', handleTouchCancel)
+
+    return () => {
+      element.removeEventListener('touchstart', handleTouchStart)
+      element.removeEventListener('touchend', handleTouchEnd)
+      element.removeEventListener('touchcancel', handleTouchCancel)
+    }
+  }, [ref, onSwipeLeft, onSwipeRight, direction, enabled])
+}
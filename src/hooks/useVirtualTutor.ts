@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { DEFAULT_TUTOR, findTutor, loadTutorCatalog } from '@/lib/tutorCatalog'
+import { getPreference, setPreference } from '@/lib/progressStore'
+import type { VirtualTutor } from '@/types/tutor'
+
+/**
+ * The tutor catalog and the learner's chosen tutor. Falls back to the first tutor in the
+ * catalog until the saved choice has loaded, or when it no longer exists.
+ */
+export const useVirtualTutor = () => {
+  const { data: tutors = [DEFAULT_TUTOR] } = useQuery({
+    queryKey: ['tutorCatalog'],
+    queryFn: loadTutorCatalog,
+    staleTime: Infinity,
+  })
+  const [savedChoice, setSavedChoice] = useState<string | undefined>(undefined)
+
+  useEffect(() => {
+    let cancelled = false
+    getPreference('selectedVirtualTutor')
+      .then(savedTutor => {
+        if (!cancelled && savedTutor) {
+          setSavedChoice(savedTutor)
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load tutor preference:', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const selectTutor = useCallback((tutor: VirtualTutor) => {
+    setSavedChoice(tutor.id)
+    setPreference('selectedVirtualTutor', tutor.id).catch(error => {
+      console.warn('Failed to save tutor preference:', error)
+    })
+  }, [])
+
+  const tutor = findTutor(tutors, savedChoice) || tutors[0]
+
+  return { tutors, tutor, selectTutor }
+}
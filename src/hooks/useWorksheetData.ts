@@ -1,63 +1,16 @@
 import { useQuery } from '@tanstack/react-query'
-import { supabase, shouldUseSupabase } from '@/lib/supabase'
-import type { WorksheetMetadata, AutoModeMetadata, RegionsModeMetadata } from '@/types/worksheet'
-
-interface WorksheetDataResponse {
-  meta: WorksheetMetadata;
-  pdfUrl: string;
-}
+import { getWorksheetRepository, WorksheetNotFoundError } from '@/lib/worksheetRepository'
+import { WorksheetValidationError } from '@/lib/worksheetSchema'
 
 export const useWorksheetData = (worksheetId: string) => {
   return useQuery({
     queryKey: ['worksheet', worksheetId],
-    queryFn: async (): Promise<WorksheetDataResponse> => {
-      // If Supabase is not configured, fallback to JSON files
-      if (!shouldUseSupabase()) {
-        console.log('Supabase not configured, using JSON fallback')
-        const response = await fetch(`/data/${worksheetId}.json`)
-        if (!response.ok) {
-          throw new Error(`Failed to fetch worksheet data: ${response.status}`)
-        }
-        const jsonData = await response.json()
-        
-        // Check if this is Auto Mode metadata
-        if (jsonData.mode === 'auto') {
-          return {
-            meta: jsonData as AutoModeMetadata,
-            pdfUrl: `/pdfs/${worksheetId}.pdf`
-          }
-        }
-        
-        // Otherwise, treat as Regions Mode metadata
-        return {
-          meta: jsonData as RegionsModeMetadata,
-          pdfUrl: `/pdfs/${worksheetId}.pdf`
-        }
-      }
-
-      // Use Supabase edge function to get both metadata and PDF URL
-      const { data, error } = await supabase.functions.invoke('get-worksheet-data', {
-        body: { worksheetId },
-      });
-
-      if (error) {
-        throw new Error(`Failed to fetch worksheet: ${error.message}`)
-      }
-
-      if (!data?.meta || !data?.pdfUrl) {
-        throw new Error('Invalid response from worksheet data function')
-      }
-
-      return {
-        meta: data.meta,
-        pdfUrl: data.pdfUrl
-      }
-    },
+    queryFn: () => getWorksheetRepository().getWorksheet(worksheetId),
     enabled: !!worksheetId,
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: (failureCount, error) => {
-      // Don't retry if it's a 404 or if Supabase is not configured
-      if (error.message.includes('404') || !shouldUseSupabase()) {
+      // Don't retry a worksheet that doesn't exist or whose metadata is malformed
+      if (error instanceof WorksheetNotFoundError || error instanceof WorksheetValidationError) {
         return false
       }
       return failureCount < 3
@@ -68,32 +21,8 @@ export const useWorksheetData = (worksheetId: string) => {
 export const useRegionsByPage = (worksheetId: string, pageNumber: number) => {
   return useQuery({
     queryKey: ['regions', worksheetId, pageNumber],
-    queryFn: async () => {
-      // If Supabase is not configured, fallback to JSON files
-      if (!shouldUseSupabase()) {
-        const response = await fetch(`/data/${worksheetId}.json`)
-        if (!response.ok) {
-          throw new Error(`Failed to fetch worksheet data: ${response.status}`)
-        }
-        const data = await response.json()
-        return data.regions?.filter((region: any) => region.page === pageNumber) || []
-      }
-
-      // Use Supabase if configured
-      const { data, error } = await supabase
-        .from('regions')
-        .select('*')
-        .eq('worksheet_id', worksheetId)
-        .eq('page', pageNumber)
-        .order('created_at', { ascending: true })
-
-      if (error) {
-        throw new Error(`Failed to fetch regions: ${error.message}`)
-      }
-
-      return data || []
-    },
+    queryFn: () => getWorksheetRepository().getRegionsByPage(worksheetId, pageNumber),
     enabled: !!worksheetId && !!pageNumber,
     staleTime: 5 * 60 * 1000, // 5 minutes
   })
-}
\ No newline at end of file
+}
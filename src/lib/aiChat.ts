@@ -0,0 +1,181 @@
+import type { LlmMessage, LlmPart, LlmProvider, LlmRequest } from "@/lib/llmProvider";
+import { getGuidanceSteps, getRegionSteps } from "@/lib/worksheetSteps";
+import type { ChatSummary, StoredChatMessage } from "@/types/progress";
+import type { AutoModeGuidanceItem, PageArea, RegionData } from "@/types/worksheet";
+import { SUMMARY_INSTRUCTION } from "../../supabase/functions/_shared/tutorInstructions.ts";
+import type { TutorFocus } from "../../supabase/functions/_shared/tutorInstructions.ts";
+
+/**
+ * Builds the multi-turn context sent to the AI tutor for a page's chat. Recent messages are
+ * sent as alternating user/model turns within a token budget; older ones are folded into a
+ * summary that is passed along with the system instruction.
+ */
+
+// Budget for the summary plus the messages sent in full; the page image comes on top
+const HISTORY_TOKEN_BUDGET = 4000;
+
+/** Scale the page is rendered at for the image sent to the AI (1 = PDF points) */
+export const PAGE_IMAGE_SCALE = 1.5;
+
+/**
+ * The region or guidance item the learner opened the chat from, with the hints they have seen
+ */
+export interface ChatFocus extends TutorFocus {
+  /** Where it is on the page, in PDF points for regions or fractions of the page for guidance items */
+  area?: PageArea;
+  areaUnits?: 'points' | 'fraction';
+}
+
+/**
+ * Rough token count for budgeting; models average about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function getRegionChatFocus(region: RegionData, stepIndex: number): ChatFocus {
+  const steps = getRegionSteps(region);
+  return {
+    title: region.name,
+    revealedHints: steps.slice(0, stepIndex + 1),
+    hasHiddenHints: stepIndex + 1 < steps.length,
+    area: { x: region.x, y: region.y, width: region.width, height: region.height },
+    areaUnits: 'points',
+  };
+}
+
+export function getGuidanceChatFocus(guidanceItem: AutoModeGuidanceItem, stepIndex: number): ChatFocus {
+  const steps = getGuidanceSteps(guidanceItem);
+  return {
+    title: guidanceItem.title,
+    revealedHints: steps.slice(0, stepIndex + 1),
+    hasHiddenHints: stepIndex + 1 < steps.length,
+    area: guidanceItem.area,
+    areaUnits: guidanceItem.area ? 'fraction' : undefined,
+  };
+}
+
+/**
+ * The focus area in pixels of the rendered page image, kept inside the image; null without one
+ */
+export function getFocusImageRect(focus: ChatFocus, imageWidth: number, imageHeight: number): PageArea | null {
+  if (!focus.area) return null;
+
+  const scaleX = focus.areaUnits === 'points' ? PAGE_IMAGE_SCALE : imageWidth;
+  const scaleY = focus.areaUnits === 'points' ? PAGE_IMAGE_SCALE : imageHeight;
+  const x = Math.max(0, Math.round(focus.area.x * scaleX));
+  const y = Math.max(0, Math.round(focus.area.y * scaleY));
+  const width = Math.min(imageWidth - x, Math.round(focus.area.width * scaleX));
+  const height = Math.min(imageHeight - y, Math.round(focus.area.height * scaleY));
+
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+// The instructions are shared with the ai-tutor edge function, which builds them for the proxy
+export { buildTutorInstruction as buildSystemInstruction } from "../../supabase/functions/_shared/tutorInstructions.ts";
+export type { TutorInstructionOptions as SystemInstructionOptions } from "../../supabase/functions/_shared/tutorInstructions.ts";
+
+/**
+ * An image message part from a base64 data URL (such as a rendered page or a compressed photo)
+ */
+export function toImagePart(dataUrl: string): LlmPart {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || "image/png";
+  return { type: 'image', mimeType, data };
+}
+
+/**
+ * Whether a saved summary still describes the start of `messages` (it may have been
+ * regenerated away, or replaced by another device's history)
+ */
+export function isSummaryCurrent(summary: ChatSummary | undefined, messages: StoredChatMessage[]): boolean {
+  return !!summary &&
+    summary.summarizedCount < messages.length &&
+    messages[summary.summarizedCount - 1]?.content === summary.lastSummarizedContent;
+}
+
+/**
+ * Index of the first message sent in full: as many recent messages as fit in the budget
+ * next to the summary, starting on a user turn. The last message is always sent.
+ */
+export function getHistoryWindowStart(messages: StoredChatMessage[], summary = "", budget = HISTORY_TOKEN_BUDGET): number {
+  let start = messages.length - 1;
+  let tokens = estimateTokens(summary) + estimateTokens(messages[start].content);
+
+  for (let index = start - 1; index >= 0; index--) {
+    tokens += estimateTokens(messages[index].content);
+    if (tokens > budget) break;
+    start = index;
+  }
+
+  // The model's history has to open with a user turn
+  while (start < messages.length - 1 && messages[start].role !== 'user') {
+    start++;
+  }
+  return start;
+}
+
+/**
+ * Converts messages to alternating user/assistant turns. Leading assistant messages (the
+ * welcome message) are dropped and consecutive messages from the same side are merged.
+ */
+export function toLlmMessages(messages: StoredChatMessage[]): LlmMessage[] {
+  const turns: { role: StoredChatMessage['role']; text: string }[] = [];
+
+  for (const message of messages) {
+    if (turns.length === 0 && message.role === 'assistant') continue;
+
+    const previous = turns[turns.length - 1];
+    if (previous?.role === message.role) {
+      previous.text = `${previous.text}\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, text: message.content });
+    }
+  }
+  return turns.map(({ role, text }) => ({ role, parts: [{ type: 'text', text }] }));
+}
+
+/**
+ * Plain text of a Markdown reply for reading aloud, without the symbols speech would read out
+ */
+export function toSpokenText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(?:#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*_~`|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface SummaryOptions extends Pick<LlmRequest, 'signal'> {
+  /** Worksheet page the chat is on, for providers that build the instruction themselves */
+  worksheetId?: string;
+  page?: number;
+}
+
+/**
+ * Folds `messages` into the previous summary (if any) with a single model call
+ */
+export async function summarizeConversation(
+  provider: LlmProvider,
+  previousSummary: string | undefined,
+  messages: StoredChatMessage[],
+  { signal, worksheetId, page }: SummaryOptions = {}
+): Promise<string> {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'Student' : 'Tutor'}: ${message.content}`)
+    .join('\n\n');
+  const prompt = previousSummary
+    ? `Summary so far:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+    : `Conversation:\n${transcript}`;
+
+  const { text } = await provider.sendMessage({
+    system: SUMMARY_INSTRUCTION,
+    messages: [{ role: 'user', parts: [{ type: 'text', text: prompt }] }],
+    signal,
+    context: worksheetId && page ? { task: 'summary', worksheetId, page } : undefined
+  });
+  return text.trim();
+}
@@ -0,0 +1,150 @@
+/**
+ * Loudness of narration recordings, measured with a Web Audio `AnalyserNode` on the
+ * narration `<audio>` element so the tutor video can follow the speech.
+ *
+ * Once an element is connected, its sound only plays through the AudioContext: it is silent
+ * while the context is suspended (browsers start it that way until a user gesture), and
+ * cross-origin recordings are silent unless loaded with CORS. So elements are only connected
+ * while the context is running and for recordings that can be read; anything else plays
+ * straight from the element, and the tutor animates without levels.
+ */
+
+interface AudioAnalysis {
+  context: AudioContext;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+// An element can only be connected once, so its analysis is kept for good
+const analyses = new WeakMap<HTMLMediaElement, AudioAnalysis>();
+
+// Shared by every element; undefined until first needed, null when the browser has none
+let audioContext: AudioContext | null | undefined;
+
+const getAudioContext = (): AudioContext | null => {
+  if (audioContext === undefined) {
+    const AudioContextClass = typeof window === "undefined"
+      ? undefined
+      : window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    try {
+      audioContext = AudioContextClass ? new AudioContextClass() : null;
+    } catch (error) {
+      console.warn('Audio analysis unavailable:', error);
+      audioContext = null;
+    }
+  }
+  return audioContext;
+};
+
+const resumeContext = (context: AudioContext) => {
+  if (context.state === "suspended") {
+    context.resume().catch(() => {
+      // Resumed again the next time narration starts
+    });
+  }
+};
+
+const isSameOrigin = (url: string): boolean => {
+  try {
+    return new URL(url, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+const connectAnalyser = (element: HTMLMediaElement, context: AudioContext): AudioAnalysis | null => {
+  try {
+    const source = context.createMediaElementSource(element);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    analyser.connect(context.destination);
+    return { context, analyser, samples: new Float32Array(analyser.fftSize) };
+  } catch (error) {
+    console.warn('Audio analysis unavailable:', error);
+    return null;
+  }
+};
+
+// Cross-origin recordings are loaded with CORS once the element may be connected
+const setCrossOrigin = (element: HTMLMediaElement, sameOrigin: boolean) => {
+  if (sameOrigin) {
+    element.removeAttribute("crossorigin");
+  } else {
+    element.crossOrigin = "anonymous";
+  }
+};
+
+const connect = (element: HTMLMediaElement, context: AudioContext): boolean => {
+  const analysis = connectAnalyser(element, context);
+  if (analysis) analyses.set(element, analysis);
+  return !!analysis;
+};
+
+/**
+ * Gets `element` ready to play the recording at `url`, connecting it to an analyser when that
+ * can't silence the recording. Call it before setting the element's source, when narration
+ * starts. `corsEnabled` tells that a cross-origin recording's server allows CORS.
+ *
+ * While the AudioContext is suspended the recording plays straight from the element, and the
+ * element is connected once the context has resumed if it is still playing that recording.
+ * An element connected earlier stays connected; cross-origin recordings are then loaded with
+ * CORS, and fail to load (rather than play silently) if their server doesn't allow it.
+ * Returns whether the recording is analysed from the start.
+ */
+export function prepareAudioAnalysis(element: HTMLMediaElement, url: string, corsEnabled = false): boolean {
+  const sameOrigin = isSameOrigin(url);
+  const analysis = analyses.get(element);
+
+  if (analysis) {
+    resumeContext(analysis.context);
+    setCrossOrigin(element, sameOrigin);
+    return true;
+  }
+
+  const context = getAudioContext();
+  if (!context || !(sameOrigin || corsEnabled)) {
+    element.removeAttribute("crossorigin");
+    return false;
+  }
+
+  // Set before the source: changing it afterwards would load the recording again
+  setCrossOrigin(element, sameOrigin);
+  if (context.state === "running") return connect(element, context);
+
+  const absoluteUrl = new URL(url, window.location.href).href;
+  context.resume()
+    .then(() => {
+      if (!analyses.has(element) && context.state === "running" && element.src === absoluteUrl) {
+        connect(element, context);
+      }
+    })
+    .catch(() => {
+      // Resumed again the next time narration starts
+    });
+  return false;
+}
+
+/**
+ * Resumes the AudioContext of an analysed element, which resuming playback after a pause needs
+ */
+export function resumeAudioAnalysis(element: HTMLMediaElement): void {
+  const analysis = analyses.get(element);
+  if (analysis) resumeContext(analysis.context);
+}
+
+/**
+ * Current loudness (RMS, 0-1) of an element prepared with `prepareAudioAnalysis`,
+ * or null when it isn't being analysed
+ */
+export function readAudioLevel(element: HTMLMediaElement): number | null {
+  const analysis = analyses.get(element);
+  if (!analysis || analysis.context.state !== "running") return null;
+
+  analysis.analyser.getFloatTimeDomainData(analysis.samples);
+  let sumOfSquares = 0;
+  for (let index = 0; index < analysis.samples.length; index++) {
+    sumOfSquares += analysis.samples[index] * analysis.samples[index];
+  }
+  return Math.sqrt(sumOfSquares / analysis.samples.length);
+}
@@ -0,0 +1,28 @@
+/**
+ * Access to the device camera, shared by the QR scanner and photo attachments in the tutor chat.
+ * Both use the back camera, which faces the worksheet when the learner holds their phone over it.
+ */
+
+export const BACK_CAMERA_CONSTRAINTS: MediaStreamConstraints = {
+  audio: false,
+  video: { facingMode: "environment" },
+};
+
+export function isCameraSupported(): boolean {
+  return typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Opens the back camera, asking for permission if needed. Rejects with the browser's error
+ * (e.g. `NotAllowedError` when permission is denied) so it can be shown with useCameraErrorHandler.
+ */
+export function openBackCamera(): Promise<MediaStream> {
+  if (!isCameraSupported()) {
+    return Promise.reject(new DOMException("Camera is not supported in this browser", "NotSupportedError"));
+  }
+  return navigator.mediaDevices.getUserMedia(BACK_CAMERA_CONSTRAINTS);
+}
+
+export function closeCamera(stream: MediaStream): void {
+  stream.getTracks().forEach(track => track.stop());
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import type { AutoModeGuidanceItem } from "@/types/worksheet";
+
+/**
+ * Narration for Auto Mode guidance. Guidance titles are free text (often Arabic, with
+ * spaces and punctuation), so audio files are not named after them. Each guidance item
+ * gets a stable key instead, and `/audio/{worksheetId}/manifest.json` maps keys to one
+ * audio file per step:
+ *
+ *   { "guidance": { "1_1": ["1_1_1.mp3", "1_1_2.mp3"], "intro": ["intro_1.mp3"] } }
+ *
+ * File names are resolved relative to the manifest; absolute URLs are used as they are.
+ */
+
+const guidanceAudioManifestSchema = z.object({
+  guidance: z.record(z.string(), z.array(z.string().min(1))),
+});
+
+export interface GuidanceAudioManifest {
+  /** Audio URL per step, keyed by guidance item key */
+  guidance: Record<string, string[]>;
+}
+
+const getAudioBaseUrl = (worksheetId: string) => `/audio/${encodeURIComponent(worksheetId)}/`;
+
+/**
+ * The item's authored `id`, or `{page}_{position}` (1-based, like region names) when it has none
+ */
+export function getGuidanceItemKey(pageNumber: number, guidanceItem: AutoModeGuidanceItem, index: number): string {
+  return guidanceItem.id || `${pageNumber}_${index + 1}`;
+}
+
+/**
+ * Loads a worksheet's guidance audio manifest. Resolves to null when the worksheet has no
+ * recordings.
+ */
+export async function loadGuidanceAudioManifest(worksheetId: string): Promise<GuidanceAudioManifest | null> {
+  const baseUrl = new URL(getAudioBaseUrl(worksheetId), window.location.origin);
+  const response = await fetch(new URL("manifest.json", baseUrl));
+  if (!response.ok) return null;
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    // Static hosts may answer missing files with the app's index.html
+    return null;
+  }
+
+  const result = guidanceAudioManifestSchema.safeParse(data);
+  if (!result.success) {
+    console.warn(`Ignoring malformed audio manifest for worksheet ${worksheetId}:`, result.error.issues);
+    return null;
+  }
+
+  const guidance: Record<string, string[]> = {};
+  Object.entries(result.data.guidance).forEach(([key, files]) => {
+    guidance[key] = files.map(file => new URL(file, baseUrl).href);
+  });
+  return { guidance };
+}
+
+/**
+ * Audio URL for one step of a guidance item, or null when that step has no recording
+ */
+export function getGuidanceStepAudioUrl(
+  manifest: GuidanceAudioManifest | null | undefined,
+  guidanceKey: string,
+  stepIndex: number
+): string | null {
+  return manifest?.guidance[guidanceKey]?.[stepIndex] || null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Downscales and compresses photos on the device before they are sent to the AI tutor, so a
+ * phone camera's multi-megabyte pictures upload quickly and stay within the request limits.
+ */
+
+// Long side in pixels; enough for the model to read handwriting on a worksheet page
+const PHOTO_MAX_DIMENSION = 1600;
+const PHOTO_JPEG_QUALITY = 0.8;
+
+/**
+ * Draws `source` (an image or a video frame of the given size) scaled down to fit the maximum
+ * dimension, and returns it as a JPEG data URL
+ */
+export function compressImage(source: CanvasImageSource, width: number, height: number): string {
+  const scale = Math.min(1, PHOTO_MAX_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  // JPEG has no transparency; fill it white like paper rather than black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', PHOTO_JPEG_QUALITY);
+}
+
+/**
+ * Compresses a picked or captured image file. Browsers apply the photo's EXIF orientation
+ * when loading it, so sideways phone photos come out upright.
+ */
+export function compressImageFile(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      try {
+        resolve(compressImage(image, image.naturalWidth, image.naturalHeight));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load the photo'));
+    };
+    image.src = url;
+  });
+}
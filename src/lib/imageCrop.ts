@@ -0,0 +1,34 @@
+import type { PageArea } from "@/types/worksheet";
+
+/**
+ * Crops an image data URL to a PNG. `getRect` receives the image's size and returns the
+ * rectangle to keep, in pixels, or null to skip cropping (the promise then resolves to null).
+ */
+export function cropImageDataUrl(
+  dataUrl: string,
+  getRect: (imageWidth: number, imageHeight: number) => PageArea | null
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const rect = getRect(image.naturalWidth, image.naturalHeight);
+      if (!rect) {
+        resolve(null);
+        return;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = rect.width;
+      canvas.height = rect.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error('Failed to load image for cropping'));
+    image.src = dataUrl;
+  });
+}
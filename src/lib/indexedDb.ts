@@ -0,0 +1,194 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ * Used for data that has to outlive the tab (sessionStorage is cleared when the PWA is closed).
+ */
+
+const DB_NAME = 'jooy';
+const DB_VERSION = 4;
+
+export const STORES = {
+  recentWorksheets: 'recentWorksheets',
+  pageProgress: 'pageProgress',
+  chatHistories: 'chatHistories',
+  chatSummaries: 'chatSummaries',
+  pageImages: 'pageImages',
+  preferences: 'preferences',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+/**
+ * Schema migrations, keyed by the version they upgrade to. Each runs inside the upgrade
+ * transaction, so it can create stores and copy data; they run in order from the stored version.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: (db) => {
+    const store = db.createObjectStore(STORES.recentWorksheets, { keyPath: 'worksheetId' });
+    store.createIndex('lastOpenedAt', 'lastOpenedAt');
+  },
+  2: (db, transaction) => {
+    for (const storeName of [STORES.pageProgress, STORES.chatHistories, STORES.pageImages]) {
+      const store = db.createObjectStore(storeName, { keyPath: 'key' });
+      store.createIndex('updatedAt', 'updatedAt');
+    }
+    db.createObjectStore(STORES.preferences, { keyPath: 'key' });
+    importLegacyWebStorage(transaction);
+  },
+  3: (db) => {
+    const store = db.createObjectStore(STORES.chatSummaries, { keyPath: 'key' });
+    store.createIndex('updatedAt', 'updatedAt');
+  },
+  4: (_db, transaction) => {
+    // Synced records get the local time they were written, which the sync push cursor follows
+    const now = Date.now();
+    for (const storeName of [STORES.pageProgress, STORES.chatHistories]) {
+      const store = transaction.objectStore(storeName);
+      store.createIndex('writtenAt', 'writtenAt');
+      store.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, writtenAt: Math.min(cursor.value.updatedAt, now) });
+        cursor.continue();
+      };
+    }
+    // The old push cursor followed `updatedAt`, which may come from another device's clock
+    transaction.objectStore(STORES.preferences).delete('progressSyncPushedAt');
+  },
+};
+
+const LEGACY_KEY_PATTERNS: { pattern: RegExp; storeName: StoreName; storage: () => Storage }[] = [
+  { pattern: /^worksheet_page_state_(.+_\d+)$/, storeName: STORES.pageProgress, storage: () => sessionStorage },
+  { pattern: /^aiChatHistory_(.+_\d+)$/, storeName: STORES.chatHistories, storage: () => localStorage },
+];
+
+/**
+ * Copies the hand-written localStorage/sessionStorage keys used before version 2 into their stores
+ */
+function importLegacyWebStorage(transaction: IDBTransaction) {
+  const now = Date.now();
+
+  for (const { pattern, storeName, storage } of LEGACY_KEY_PATTERNS) {
+    try {
+      const webStorage = storage();
+      for (let i = 0; i < webStorage.length; i++) {
+        const match = webStorage.key(i)?.match(pattern);
+        if (!match) continue;
+        const value = JSON.parse(webStorage.getItem(match[0]) || 'null');
+        if (value) {
+          transaction.objectStore(storeName).put({ key: match[1], value, updatedAt: now });
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to import legacy data into ${storeName}:`, error);
+    }
+  }
+
+  try {
+    const selectedVirtualTutor = localStorage.getItem('selectedVirtualTutor');
+    if (selectedVirtualTutor) {
+      transaction.objectStore(STORES.preferences).put({ key: 'selectedVirtualTutor', value: selectedVirtualTutor });
+    }
+  } catch (error) {
+    console.warn('Failed to import legacy preferences:', error);
+  }
+}
+
+/**
+ * Removes the legacy keys once the upgrade that imported them has committed
+ */
+function removeLegacyWebStorage() {
+  for (const { pattern, storage } of LEGACY_KEY_PATTERNS) {
+    try {
+      const webStorage = storage();
+      const legacyKeys: string[] = [];
+      for (let i = 0; i < webStorage.length; i++) {
+        const key = webStorage.key(i);
+        if (key && pattern.test(key)) legacyKeys.push(key);
+      }
+      legacyKeys.forEach(key => webStorage.removeItem(key));
+    } catch {
+      // Web storage may be unavailable (e.g. disabled cookies); nothing to clean up then
+    }
+  }
+  try {
+    localStorage.removeItem('selectedVirtualTutor');
+  } catch {
+    // See above
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and creates or migrates) the database. The connection is shared across callers.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let importedLegacyData = false;
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      importedLegacyData = event.oldVersion < 2;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      if (importedLegacyData) {
+        removeLegacyWebStorage();
+      }
+      // Another tab upgraded the schema; drop this connection so the next call reopens it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against a store and resolves once its transaction has completed
+ */
+export async function runTransaction<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * True for the errors browsers raise when the origin's storage quota is exhausted
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
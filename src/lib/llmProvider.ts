@@ -0,0 +1,605 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { Content, Part } from "@google/generative-ai";
+import { estimateTokens } from "@/lib/aiChat";
+import { getEdgeFunctionEndpoint, shouldUseSupabase } from "@/lib/supabase";
+import { getPreference, setPreference } from "@/lib/progressStore";
+import { buildLeakCorrection, findAnswerLeak } from "../../supabase/functions/_shared/answerGuard.ts";
+import type { AnswerLeak } from "../../supabase/functions/_shared/answerGuard.ts";
+
+/**
+ * The language model behind the tutor chat, independent of who hosts it. The chat goes through
+ * getLlmProvider(), which is chosen at build time:
+ *
+ * - `VITE_LLM_PROVIDER=proxy` (default when Supabase is configured): the `ai-tutor` edge
+ *   function, which holds the API key server-side and rate-limits each device. If the
+ *   function isn't deployed or has no key configured, the chat falls back to Gemini with the
+ *   learner's key for a while, then tries the function again.
+ * - `VITE_LLM_PROVIDER=gemini` (default otherwise): Google Gemini, with the key the learner
+ *   enters (stored in localStorage). `VITE_LLM_MODEL` overrides the model.
+ * - `VITE_LLM_PROVIDER=openai-compatible`: any server implementing the OpenAI chat completions
+ *   API, such as a school's self-hosted model. Needs `VITE_LLM_BASE_URL` (e.g.
+ *   `http://localhost:11434/v1`) and `VITE_LLM_MODEL`. If the server turns requests away for
+ *   lack of a key, the learner is asked for one (stored in localStorage).
+ * - `VITE_LLM_PROVIDER=fake`: canned replies, for tests and offline development.
+ *
+ * API keys are never built into the app, where anyone could read them from the bundle.
+ *
+ * Only the proxy checks replies against the worksheet's answer keys, which stay on the server.
+ * Replies from Gemini and OpenAI-compatible servers are checked in the app for answers stated
+ * outright ("the answer is ..."), and other answers given away there aren't caught. Use the
+ * proxy where replies must not give answers away.
+ *
+ * Tests can swap in their own provider with setLlmProvider().
+ */
+
+export type LlmPart =
+  | { type: 'text'; text: string }
+  /** Base64 image data without the `data:` prefix */
+  | { type: 'image'; mimeType: string; data: string };
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  parts: LlmPart[];
+}
+
+/**
+ * What the tutor is asked and about which part of the worksheet, for providers that build the
+ * instructions themselves (the proxy, which doesn't take instructions from the app)
+ */
+export interface TutorContext {
+  /** `reply` for the tutor's reply, `summary` to summarise earlier messages */
+  task: 'reply' | 'summary';
+  worksheetId: string;
+  page: number;
+  /** Region the chat was opened from */
+  regionId?: string;
+  /** Guidance item the chat was opened from; guidance items are found by title */
+  guidanceTitle?: string;
+  /** Step of the region or guidance item the learner has reached */
+  stepIndex?: number;
+  /** Whether the crop of the focus area is sent after the page image */
+  hasFocusImage?: boolean;
+  /** Whether a photo of the student's work is sent last */
+  hasAttemptPhoto?: boolean;
+  /** Summary of the messages that are no longer sent in full */
+  summary?: string;
+}
+
+export interface LlmRequest {
+  /** Instructions that apply to the whole conversation */
+  system?: string;
+  /** The conversation so far, starting and ending with a user turn */
+  messages: LlmMessage[];
+  /** Cancels the request; the reply then rejects with an AbortError */
+  signal?: AbortSignal;
+  /** What the conversation is about, for providers that build `system` themselves */
+  context?: TutorContext;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmReply {
+  text: string;
+  /** Tokens used, when the provider reports them */
+  usage?: LlmUsage;
+  /** True when the provider held the reply back for giving an answer away; `text` is then empty */
+  withheld?: boolean;
+}
+
+export interface LlmProvider {
+  /** Identifies the provider in logs and errors */
+  readonly name: string;
+  /** True while the provider can't be used until the learner enters an API key */
+  needsApiKey(): boolean;
+  /** Keeps the API key the learner entered, for providers that take one */
+  setApiKey?(apiKey: string): void;
+  /**
+   * Sends the conversation and streams the reply, calling `onText` with each new piece of it.
+   * `onRestart` is called when the text streamed so far is dropped for a new reply.
+   * Resolves with the whole reply once it has finished.
+   */
+  sendMessage(request: LlmRequest, onText?: (text: string) => void, onRestart?: () => void): Promise<LlmReply>;
+}
+
+export class LlmRequestError extends Error {
+  /**
+   * @param code - Machine-readable reason the server gave, if any (e.g. `not_configured`)
+   */
+  constructor(
+    public readonly provider: string,
+    public readonly status: number,
+    detail: string,
+    public readonly code?: string
+  ) {
+    super(`${provider} request failed (${status})${detail ? `: ${detail}` : ''}`);
+    this.name = 'LlmRequestError';
+  }
+}
+
+export const GEMINI_API_KEY_STORAGE_KEY = 'gemini-api-key';
+export const LLM_API_KEY_STORAGE_KEY = 'llm-api-key';
+const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+const createAbortError = () => new DOMException('The request was aborted', 'AbortError');
+
+const getTextOf = (message: LlmMessage) =>
+  message.parts.map(part => part.type === 'text' ? part.text : '').join('');
+
+const toGeminiContent = (message: LlmMessage): Content => ({
+  role: message.role === 'user' ? 'user' : 'model',
+  parts: message.parts.map((part): Part => part.type === 'text'
+    ? { text: part.text }
+    : { inlineData: { data: part.data, mimeType: part.mimeType } }),
+});
+
+interface GeminiProviderOptions {
+  model?: string;
+  getApiKey?: () => string | null;
+  setApiKey?: (apiKey: string) => void;
+}
+
+export function createGeminiProvider({
+  model = DEFAULT_GEMINI_MODEL,
+  getApiKey = () => localStorage.getItem(GEMINI_API_KEY_STORAGE_KEY),
+  setApiKey = apiKey => localStorage.setItem(GEMINI_API_KEY_STORAGE_KEY, apiKey)
+}: GeminiProviderOptions = {}): LlmProvider {
+  return {
+    name: 'gemini',
+
+    needsApiKey: () => !getApiKey(),
+
+    setApiKey,
+
+    async sendMessage({ system, messages, signal }, onText) {
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        throw new Error('Gemini API key is missing');
+      }
+
+      const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model, systemInstruction: system });
+      const result = await generativeModel.generateContentStream({ contents: messages.map(toGeminiContent) }, { signal });
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        if (signal?.aborted) throw createAbortError();
+        const delta = chunk.text();
+        text += delta;
+        if (delta) onText?.(delta);
+      }
+
+      const { usageMetadata } = await result.response;
+      return {
+        text,
+        usage: usageMetadata && {
+          inputTokens: usageMetadata.promptTokenCount,
+          outputTokens: usageMetadata.candidatesTokenCount,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Yields the `data:` payloads of a server-sent event stream
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+interface OpenAiStreamChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+const toOpenAiMessage = (message: LlmMessage) => ({
+  role: message.role,
+  content: message.role === 'assistant'
+    ? getTextOf(message)
+    : message.parts.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }),
+});
+
+interface OpenAiCompatibleProviderOptions {
+  /** Base URL of the API, up to and including the version (e.g. `http://localhost:11434/v1`) */
+  baseUrl: string;
+  model: string;
+  getApiKey?: () => string | null;
+  /** Stores the learner's key, or forgets it (null) once the server has rejected it */
+  setApiKey?: (apiKey: string | null) => void;
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API with streaming, hosted or local
+ */
+export function createOpenAiCompatibleProvider({
+  baseUrl,
+  model,
+  getApiKey = () => localStorage.getItem(LLM_API_KEY_STORAGE_KEY),
+  setApiKey = apiKey => apiKey
+    ? localStorage.setItem(LLM_API_KEY_STORAGE_KEY, apiKey)
+    : localStorage.removeItem(LLM_API_KEY_STORAGE_KEY)
+}: OpenAiCompatibleProviderOptions): LlmProvider {
+  const name = 'openai-compatible';
+  // Local servers usually run without a key, so one is only asked for once the server wants it
+  let requiresApiKey = false;
+
+  return {
+    name,
+
+    needsApiKey: () => requiresApiKey && !getApiKey(),
+
+    setApiKey,
+
+    async sendMessage({ system, messages, signal }, onText) {
+      if (!baseUrl || !model) {
+        throw new Error('Set VITE_LLM_BASE_URL and VITE_LLM_MODEL to use an OpenAI-compatible server');
+      }
+
+      const apiKey = getApiKey();
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          stream_options: { include_usage: true },
+          messages: [
+            ...(system ? [{ role: 'system', content: system }] : []),
+            ...messages.map(toOpenAiMessage),
+          ],
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        if (response.status === 401 || response.status === 403) {
+          requiresApiKey = true;
+          if (apiKey) setApiKey(null);
+        }
+        throw new LlmRequestError(name, response.status, await response.text().catch(() => ''));
+      }
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+
+        const chunk = JSON.parse(data) as OpenAiStreamChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText?.(delta);
+        }
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+      }
+
+      return { text, usage };
+    },
+  };
+}
+
+let deviceIdRequest: Promise<string> | null = null;
+
+// Created on first use and kept with the learner's preferences
+const getDeviceId = (): Promise<string> => {
+  if (!deviceIdRequest) {
+    deviceIdRequest = getPreference('aiDeviceId')
+      .catch(() => undefined)
+      .then(savedId => {
+        if (savedId) return savedId;
+        const deviceId = crypto.randomUUID();
+        setPreference('aiDeviceId', deviceId).catch(error => {
+          console.warn('Failed to save AI device ID:', error);
+        });
+        return deviceId;
+      });
+  }
+  return deviceIdRequest;
+};
+
+interface ProxyStreamEvent {
+  text?: string;
+  usage?: LlmUsage;
+  truncated?: boolean;
+  restart?: boolean;
+  withheld?: boolean;
+  error?: string;
+}
+
+/**
+ * The `ai-tutor` Supabase edge function, which calls the model with the project's own key and
+ * keeps replies from giving away answers in the worksheet's answer keys. It builds the tutor's
+ * instructions from `context`, so `system` isn't sent.
+ * Rejects with an LlmRequestError (status 429) when the device has used up its requests.
+ */
+export function createProxyProvider(functionName = 'ai-tutor'): LlmProvider {
+  const name = 'proxy';
+
+  return {
+    name,
+
+    needsApiKey: () => false,
+
+    async sendMessage({ messages, signal, context }, onText, onRestart) {
+      if (!context) {
+        throw new Error('The AI tutor proxy needs to know which worksheet the chat is about');
+      }
+
+      const { url, headers } = getEdgeFunctionEndpoint(functionName);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          deviceId: await getDeviceId(),
+          context,
+          messages,
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null) as { error?: string; code?: string } | null;
+        throw new LlmRequestError(name, response.status, body?.error || '', body?.code);
+      }
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+      let withheld = false;
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+
+        const event = JSON.parse(data) as ProxyStreamEvent;
+        if (event.error) {
+          throw new LlmRequestError(name, 502, event.error);
+        }
+        if (event.restart) {
+          text = '';
+          onRestart?.();
+        }
+        if (event.withheld) withheld = true;
+        if (event.text) {
+          text += event.text;
+          onText?.(event.text);
+        }
+        if (event.usage) usage = event.usage;
+      }
+
+      return { text, usage, withheld };
+    },
+  };
+}
+
+// How long the fallback is used before the primary provider is tried again
+const FALLBACK_DURATION_MS = 10 * 60 * 1000;
+
+// The provider definitely isn't there: not deployed (404 from the function endpoint) or without
+// a key. Network failures and other errors are passed on, so the learner can retry them.
+const isMissing = (error: unknown) =>
+  error instanceof LlmRequestError && (error.status === 404 || error.code === 'not_configured');
+
+/**
+ * Uses `primary`, or `fallback` for a while after `primary` turned out to be missing. A request
+ * that fails that way is sent again to `fallback`, unless that one needs an API key first.
+ */
+export function createFallbackProvider(
+  primary: LlmProvider,
+  fallback: LlmProvider,
+  fallbackDurationMs = FALLBACK_DURATION_MS
+): LlmProvider {
+  let fallbackUntil = 0;
+  const getActive = () => Date.now() < fallbackUntil ? fallback : primary;
+
+  return {
+    get name() {
+      return getActive().name;
+    },
+
+    needsApiKey: () => getActive().needsApiKey(),
+
+    setApiKey(apiKey) {
+      getActive().setApiKey?.(apiKey);
+    },
+
+    async sendMessage(request, onText, onRestart) {
+      if (getActive() === primary) {
+        try {
+          return await primary.sendMessage(request, onText, onRestart);
+        } catch (error) {
+          if (!isMissing(error)) throw error;
+          console.warn(`${primary.name} is unavailable; using ${fallback.name} instead:`, error);
+          fallbackUntil = Date.now() + fallbackDurationMs;
+          if (fallback.needsApiKey()) throw error;
+        }
+      }
+      return fallback.sendMessage(request, onText, onRestart);
+    },
+  };
+}
+
+// How many replies are asked for before one that keeps giving an answer away is withheld
+const MAX_GUARDED_REPLY_ATTEMPTS = 2;
+
+/**
+ * Checks the tutor's replies from a provider the app calls directly for answers stated outright,
+ * as the ai-tutor function does for the proxy but without answer keys. A reply that states one
+ * is dropped (`onRestart`) and asked for again, then withheld if the next one does too.
+ * Summaries aren't shown to the learner, so only replies (`context.task === 'reply'`) are checked.
+ */
+export function createAnswerGuardedProvider(provider: LlmProvider): LlmProvider {
+  return {
+    get name() {
+      return provider.name;
+    },
+
+    needsApiKey: () => provider.needsApiKey(),
+
+    setApiKey(apiKey) {
+      provider.setApiKey?.(apiKey);
+    },
+
+    async sendMessage(request, onText, onRestart) {
+      if (request.context?.task !== 'reply') {
+        return provider.sendMessage(request, onText, onRestart);
+      }
+
+      // The learner may have worked an answer out already; the tutor can repeat it back
+      const studentMessages = request.messages.filter(message => message.role === 'user').map(getTextOf);
+      let system = request.system;
+
+      for (let attempt = 1; ; attempt++) {
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        if (request.signal?.aborted) abort();
+        request.signal?.addEventListener('abort', abort, { once: true });
+
+        let reply = '';
+        let sentLength = 0;
+        const caught: { leak: AnswerLeak | null } = { leak: null };
+        try {
+          const result = await provider.sendMessage({ ...request, system, signal: controller.signal }, text => {
+            if (caught.leak) return;
+            reply += text;
+            caught.leak = findAnswerLeak(reply, [], studentMessages);
+            if (caught.leak) {
+              controller.abort();
+              return;
+            }
+            // The last word is held back until it is complete, so part of an answer never goes out
+            const checked = reply.slice(0, reply.search(/\S*$/));
+            if (checked.length > sentLength) {
+              onText?.(checked.slice(sentLength));
+              sentLength = checked.length;
+            }
+          });
+          if (!caught.leak) {
+            if (reply.length > sentLength) onText?.(reply.slice(sentLength));
+            return result;
+          }
+        } catch (error) {
+          if (!caught.leak) throw error;
+        } finally {
+          request.signal?.removeEventListener('abort', abort);
+        }
+
+        console.warn(`${provider.name} reply gave an answer away (attempt ${attempt}):`, caught.leak.matched);
+        onRestart?.();
+        if (attempt === MAX_GUARDED_REPLY_ATTEMPTS) {
+          return { text: '', withheld: true };
+        }
+        system = [request.system, buildLeakCorrection(caught.leak)].filter(Boolean).join('\n\n');
+      }
+    },
+  };
+}
+
+interface FakeLlmProviderOptions {
+  /** Builds the reply; by default it echoes the last user message */
+  reply?: (request: LlmRequest) => string;
+  /** Delay between streamed words, to exercise loading and stop states */
+  chunkDelayMs?: number;
+}
+
+/**
+ * Deterministic provider that streams a canned reply word by word and records every request
+ */
+export function createFakeLlmProvider({
+  reply = ({ messages }) => `Fake reply to: ${getTextOf(messages[messages.length - 1])}`,
+  chunkDelayMs = 0
+}: FakeLlmProviderOptions = {}): LlmProvider & { requests: LlmRequest[] } {
+  const requests: LlmRequest[] = [];
+
+  const wait = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(resolve, chunkDelayMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    }, { once: true });
+  });
+
+  return {
+    name: 'fake',
+    requests,
+
+    needsApiKey: () => false,
+
+    async sendMessage(request, onText) {
+      requests.push(request);
+      const text = reply(request);
+
+      for (const word of text.match(/\S+\s*/g) || []) {
+        await wait(request.signal);
+        onText?.(word);
+      }
+
+      const input = [request.system || '', ...request.messages.map(getTextOf)].join('\n');
+      return { text, usage: { inputTokens: estimateTokens(input), outputTokens: estimateTokens(text) } };
+    },
+  };
+}
+
+function createConfiguredProvider(): LlmProvider {
+  const env = import.meta.env;
+  switch (env.VITE_LLM_PROVIDER || (shouldUseSupabase() ? 'proxy' : 'gemini')) {
+    case 'proxy':
+      return createFallbackProvider(
+        createProxyProvider(),
+        createAnswerGuardedProvider(createGeminiProvider({ model: env.VITE_LLM_MODEL || DEFAULT_GEMINI_MODEL }))
+      );
+    case 'openai-compatible':
+      return createAnswerGuardedProvider(createOpenAiCompatibleProvider({
+        baseUrl: env.VITE_LLM_BASE_URL || '',
+        model: env.VITE_LLM_MODEL || '',
+      }));
+    case 'fake':
+      return createFakeLlmProvider({ chunkDelayMs: 50 });
+    default:
+      return createAnswerGuardedProvider(createGeminiProvider({ model: env.VITE_LLM_MODEL || DEFAULT_GEMINI_MODEL }));
+  }
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createConfiguredProvider();
+  }
+  return provider;
+}
+
+/**
+ * Replaces the provider used by getLlmProvider(); pass null to go back to the configured one
+ */
+export function setLlmProvider(nextProvider: LlmProvider | null): void {
+  provider = nextProvider;
+}
@@ -0,0 +1,102 @@
+import { getTextDirection } from "@/lib/textDirection";
+
+/**
+ * Narration of worksheet steps. A step is read from its recorded audio when the file exists;
+ * otherwise it is spoken with the browser's speech synthesis in the language of the text,
+ * so worksheets can ship before every step has been recorded.
+ */
+
+// Whether each recording URL exists, checked once per session
+const recordingAvailability = new Map<string, Promise<boolean>>();
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window && typeof SpeechSynthesisUtterance !== "undefined";
+}
+
+/**
+ * Checks that a recording exists without downloading it. Static hosts may answer missing
+ * files with the app's index.html, so an HTML response counts as missing.
+ */
+export function checkRecordingAvailable(url: string): Promise<boolean> {
+  let check = recordingAvailability.get(url);
+  if (!check) {
+    check = fetch(url, { method: "HEAD" })
+      .then(response => response.ok && !(response.headers.get("content-type") || "").startsWith("text/html"))
+      .catch(() => false);
+    recordingAvailability.set(url, check);
+  }
+  return check;
+}
+
+/**
+ * Records that a recording failed to play, so later plays go straight to speech
+ */
+export function markRecordingUnavailable(url: string): void {
+  recordingAvailability.set(url, Promise.resolve(false));
+}
+
+/**
+ * Language to speak a step in: Arabic for right-to-left text, otherwise the UI language
+ * unless that is Arabic (Latin text in an Arabic UI is read in English).
+ */
+export function getSpeechLanguage(text: string, uiLanguage: string): string {
+  if (getTextDirection(text) === "rtl") return "ar";
+  return uiLanguage && uiLanguage !== "ar" ? uiLanguage : "en";
+}
+
+const findVoice = (language: string, preferredName?: string): SpeechSynthesisVoice | null => {
+  const prefix = language.toLowerCase();
+  const matching = window.speechSynthesis.getVoices().filter(voice => voice.lang.toLowerCase().startsWith(prefix));
+  const preferred = preferredName && matching.find(voice => voice.name.toLowerCase().includes(preferredName.toLowerCase()));
+  return preferred || matching.find(voice => voice.localService) || matching[0] || null;
+};
+
+export interface SpeechOptions {
+  language: string;
+  /** Speaking rate, where 1 is normal speed */
+  rate?: number;
+  /** Name (or part of it) of the voice to use when the browser has it */
+  voiceName?: string;
+}
+
+export interface SpeechHandlers {
+  onStart?: () => void;
+  /** `completed` is false when speech was stopped or failed before the end */
+  onEnd?: (completed: boolean) => void;
+}
+
+/**
+ * Speaks text with the browser's speech synthesis. Returns a function that stops it.
+ */
+export function speakText(text: string, { language, rate = 1, voiceName }: SpeechOptions, handlers: SpeechHandlers = {}): () => void {
+  if (!isSpeechSynthesisSupported()) {
+    handlers.onEnd?.(false);
+    return () => {};
+  }
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = language;
+  utterance.rate = rate;
+  const voice = findVoice(language, voiceName);
+  if (voice) utterance.voice = voice;
+
+  let finished = false;
+  const finish = (completed: boolean) => {
+    if (finished) return;
+    finished = true;
+    handlers.onEnd?.(completed);
+  };
+
+  utterance.onstart = () => handlers.onStart?.();
+  utterance.onend = () => finish(true);
+  utterance.onerror = () => finish(false);
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+
+  return () => {
+    if (finished) return;
+    finish(false);
+    window.speechSynthesis.cancel();
+  };
+}
@@ -0,0 +1,191 @@
+import { runTransaction, isQuotaExceededError, STORES, type StoreName } from "@/lib/indexedDb";
+import type { PageProgress, StoredChatMessage, ChatSummary, LearnerPreferences } from "@/types/progress";
+
+/**
+ * Durable learner progress, backed by IndexedDB.
+ *
+ * Every record is stored as `{ key, value, updatedAt, writtenAt }`. Keys for per-page data are
+ * `${worksheetId}_${page}`. Rendered page images are a cache and are evicted first when
+ * storage runs low; progress and chat history are only dropped once they go stale.
+ */
+
+export interface StoredRecord<T> {
+  key: string;
+  value: T;
+  /** When the value was last changed, on whichever device changed it */
+  updatedAt: number;
+  /** When the learner last changed the record on this device (local clock; 0 if never) */
+  writtenAt?: number;
+}
+
+type PerPageStore = typeof STORES.pageProgress | typeof STORES.chatHistories | typeof STORES.chatSummaries | typeof STORES.pageImages;
+
+/** Stores mirrored to other devices by progress sync */
+export type SyncedStore = typeof STORES.pageProgress | typeof STORES.chatHistories;
+
+const MAX_PAGE_IMAGES = 10;
+const RETENTION_MS = 180 * 24 * 60 * 60 * 1000; // 180 days
+
+const getPageKey = (worksheetId: string, page: number | string) => `${worksheetId}_${page}`;
+
+async function getRecord<T>(storeName: StoreName, key: string): Promise<T | undefined> {
+  const record = await runTransaction<StoredRecord<T> | undefined>(storeName, 'readonly', store => store.get(key));
+  return record?.value;
+}
+
+async function putRecordOnce<T>(storeName: StoreName, record: StoredRecord<T>): Promise<void> {
+  await runTransaction(storeName, 'readwrite', store => store.put(record));
+}
+
+async function listKeysByAge(storeName: PerPageStore): Promise<{ key: string; updatedAt: number }[]> {
+  const records = await runTransaction<StoredRecord<unknown>[]>(storeName, 'readonly', store => store.index('updatedAt').getAll());
+  return records.map(({ key, updatedAt }) => ({ key, updatedAt }));
+}
+
+async function deleteKeys(storeName: StoreName, keys: string[]): Promise<void> {
+  await Promise.all(keys.map(key => runTransaction(storeName, 'readwrite', store => store.delete(key))));
+}
+
+/**
+ * Drops cached page images beyond the newest `keepImages`, and progress/chat data older than the retention period
+ */
+async function evictEntries(keepImages: number, retentionMs: number): Promise<void> {
+  const images = await listKeysByAge(STORES.pageImages);
+  await deleteKeys(STORES.pageImages, images.slice(0, Math.max(images.length - keepImages, 0)).map(({ key }) => key));
+
+  const cutoff = Date.now() - retentionMs;
+  for (const storeName of [STORES.pageProgress, STORES.chatHistories, STORES.chatSummaries] as const) {
+    const records = await listKeysByAge(storeName);
+    await deleteKeys(storeName, records.filter(({ updatedAt }) => updatedAt < cutoff).map(({ key }) => key));
+  }
+}
+
+let routineEviction: Promise<void> | null = null;
+
+/**
+ * Runs the routine eviction once per app session, and asks the browser not to evict our data under pressure
+ */
+function ensureRoutineEviction(): Promise<void> {
+  if (!routineEviction) {
+    navigator.storage?.persist?.().catch(() => {
+      // Persistence is a best-effort hint
+    });
+    routineEviction = evictEntries(MAX_PAGE_IMAGES, RETENTION_MS).catch(error => {
+      console.warn('Progress store eviction failed:', error);
+    });
+  }
+  return routineEviction;
+}
+
+/**
+ * Writes a record, freeing space and retrying when the quota is exceeded:
+ * first all cached page images are dropped, then progress older than 30 days.
+ */
+async function putRecord<T>(storeName: StoreName, key: string, value: T, updatedAt = Date.now(), writtenAt = updatedAt): Promise<void> {
+  await ensureRoutineEviction();
+
+  const fallbacks = [
+    () => evictEntries(0, RETENTION_MS),
+    () => evictEntries(0, 30 * 24 * 60 * 60 * 1000),
+  ];
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await putRecordOnce(storeName, { key, value, updatedAt, writtenAt });
+      return;
+    } catch (error) {
+      if (!isQuotaExceededError(error) || attempt >= fallbacks.length) {
+        throw error;
+      }
+      console.warn(`Storage quota exceeded while writing ${storeName}; evicting old data`);
+      await fallbacks[attempt]();
+    }
+  }
+}
+
+const changeListeners = new Set<(storeName: SyncedStore) => void>();
+
+/**
+ * Notifies the listener whenever the learner changes progress or chat history on this device
+ */
+export function subscribeToProgressChanges(listener: (storeName: SyncedStore) => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+async function putSyncedRecord<T>(storeName: SyncedStore, key: string, value: T): Promise<void> {
+  await putRecord(storeName, key, value);
+  changeListeners.forEach(listener => listener(storeName));
+}
+
+/**
+ * Records the learner changed on this device after `since` (ms, local clock), oldest first.
+ * Records received from other devices only count once changed here.
+ */
+export async function listRecordsWrittenSince(storeName: SyncedStore, since: number): Promise<StoredRecord<unknown>[]> {
+  return runTransaction<StoredRecord<unknown>[]>(storeName, 'readonly', store =>
+    store.index('writtenAt').getAll(IDBKeyRange.lowerBound(since, true))
+  );
+}
+
+export async function getStoredRecord<T>(storeName: SyncedStore, key: string): Promise<StoredRecord<T> | undefined> {
+  return runTransaction<StoredRecord<T> | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+/**
+ * Writes a record received from another device, keeping its timestamp and this device's last
+ * write time, and without notifying change listeners
+ */
+export async function putMergedRecord<T>(storeName: SyncedStore, record: StoredRecord<T>): Promise<void> {
+  const local = await getStoredRecord<T>(storeName, record.key);
+  return putRecord(storeName, record.key, record.value, record.updatedAt, local?.writtenAt || 0);
+}
+
+export function getPageProgress(worksheetId: string, page: number | string): Promise<PageProgress | undefined> {
+  return getRecord<PageProgress>(STORES.pageProgress, getPageKey(worksheetId, page));
+}
+
+export function savePageProgress(worksheetId: string, page: number | string, progress: PageProgress): Promise<void> {
+  return putSyncedRecord(STORES.pageProgress, getPageKey(worksheetId, page), progress);
+}
+
+export function getChatHistory(worksheetId: string, page: number | string): Promise<StoredChatMessage[] | undefined> {
+  return getRecord<StoredChatMessage[]>(STORES.chatHistories, getPageKey(worksheetId, page));
+}
+
+export function saveChatHistory(worksheetId: string, page: number | string, messages: StoredChatMessage[]): Promise<void> {
+  return putSyncedRecord(STORES.chatHistories, getPageKey(worksheetId, page), messages);
+}
+
+export function getChatSummary(worksheetId: string, page: number | string): Promise<ChatSummary | undefined> {
+  return getRecord<ChatSummary>(STORES.chatSummaries, getPageKey(worksheetId, page));
+}
+
+export function saveChatSummary(worksheetId: string, page: number | string, summary: ChatSummary): Promise<void> {
+  return putRecord(STORES.chatSummaries, getPageKey(worksheetId, page), summary);
+}
+
+/**
+ * Rendered page image (data URL) sent to the AI chat. Purely a cache; safe to lose.
+ */
+export function getPageImage(worksheetId: string, page: number | string): Promise<string | undefined> {
+  return getRecord<string>(STORES.pageImages, getPageKey(worksheetId, page));
+}
+
+export function savePageImage(worksheetId: string, page: number | string, imageDataUrl: string): Promise<void> {
+  return putRecord(STORES.pageImages, getPageKey(worksheetId, page), imageDataUrl);
+}
+
+export function getPreference<K extends keyof LearnerPreferences>(key: K): Promise<LearnerPreferences[K] | undefined> {
+  return getRecord<LearnerPreferences[K]>(STORES.preferences, key);
+}
+
+export async function removePreference(key: keyof LearnerPreferences): Promise<void> {
+  await runTransaction(STORES.preferences, 'readwrite', store => store.delete(key));
+}
+
+export function setPreference<K extends keyof LearnerPreferences>(key: K, value: LearnerPreferences[K]): Promise<void> {
+  return putRecord(STORES.preferences, key, value);
+}
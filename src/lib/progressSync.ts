@@ -0,0 +1,398 @@
+import { getSupabaseClient, shouldUseSupabase } from "@/lib/supabase";
+import { STORES } from "@/lib/indexedDb";
+import {
+  getPreference,
+  setPreference,
+  removePreference,
+  getStoredRecord,
+  listRecordsWrittenSince,
+  putMergedRecord,
+  subscribeToProgressChanges,
+  type StoredRecord,
+  type SyncedStore
+} from "@/lib/progressStore";
+import type { PageProgress, StoredStepState } from "@/types/progress";
+import type { Json } from "@/types/database";
+
+/**
+ * Opt-in mirroring of learner progress and chat history to Supabase, so a learner can
+ * continue on another device. Devices are linked by a shared sync code; without one
+ * (or without Supabase configured) everything stays local.
+ *
+ * Conflicts are resolved per record: the most recent write wins, except that the step
+ * reached in each region/guidance item only ever moves forward.
+ */
+
+export type ProgressSyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface ProgressSyncStatus {
+  state: ProgressSyncState;
+  syncCode: string | null;
+  lastSyncedAt: number | null;
+}
+
+type SyncKind = 'page_progress' | 'chat_history';
+
+interface RemoteProgressRecord {
+  kind: SyncKind;
+  record_key: string;
+  value: unknown;
+  updated_at: number;
+  synced_at: string;
+}
+
+const STORE_BY_KIND: Record<SyncKind, SyncedStore> = {
+  page_progress: STORES.pageProgress,
+  chat_history: STORES.chatHistories,
+};
+
+const SYNCED_STORES: { kind: SyncKind; storeName: SyncedStore }[] = [
+  { kind: 'page_progress', storeName: STORES.pageProgress },
+  { kind: 'chat_history', storeName: STORES.chatHistories },
+];
+
+const PUSH_DEBOUNCE_MS = 5000;
+// Limits of one push, within push_learner_progress's; its size limit counts the records as
+// the database prints them, with more spaces than JSON.stringify
+const MAX_PUSH_RECORDS = 200;
+const MAX_PUSH_BYTES = 512 * 1024;
+// Pulls overlap the previous cursor slightly so rows committed out of order aren't missed; merging is idempotent
+const PULL_OVERLAP_MS = 5000;
+const SYNC_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SYNC_CODE_PATTERN = /^[A-HJ-NP-Z2-9]{4}(-[A-HJ-NP-Z2-9]{4}){3}$/;
+
+let status: ProgressSyncStatus = { state: 'disabled', syncCode: null, lastSyncedAt: null };
+const statusListeners = new Set<() => void>();
+
+const setStatus = (update: Partial<ProgressSyncStatus>) => {
+  status = { ...status, ...update };
+  statusListeners.forEach(listener => listener());
+};
+
+export function getProgressSyncStatus(): ProgressSyncStatus {
+  return status;
+}
+
+export function subscribeToProgressSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function isProgressSyncAvailable(): boolean {
+  return !!shouldUseSupabase();
+}
+
+/**
+ * Normalizes a sync code typed by the learner (case, spacing, dashes); returns null when it isn't valid
+ */
+export function normalizeSyncCode(input: string): string | null {
+  const characters = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const code = characters.match(/.{1,4}/g)?.join('-') || '';
+  return SYNC_CODE_PATTERN.test(code) ? code : null;
+}
+
+function generateSyncCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const characters = Array.from(bytes, byte => SYNC_CODE_ALPHABET[byte % SYNC_CODE_ALPHABET.length]);
+  return characters.join('').match(/.{4}/g)!.join('-');
+}
+
+const mergeStepStates = (
+  local: Record<string, StoredStepState>,
+  remote: Record<string, StoredStepState>
+): Record<string, StoredStepState> => {
+  const merged = { ...local };
+  for (const [key, remoteState] of Object.entries(remote)) {
+    const localState = merged[key];
+    merged[key] = {
+      currentStepIndex: Math.max(localState?.currentStepIndex || 0, remoteState.currentStepIndex || 0),
+      completed: !!localState?.completed || !!remoteState.completed
+    };
+  }
+  return merged;
+};
+
+/**
+ * Merges two copies of a page's progress: the newer copy decides what was open last,
+ * and every region/guidance item keeps the furthest step reached on either device.
+ */
+export function mergePageProgress(
+  local: StoredRecord<PageProgress>,
+  remote: StoredRecord<PageProgress>
+): StoredRecord<PageProgress> {
+  const newer = remote.updatedAt > local.updatedAt ? remote : local;
+  return {
+    key: local.key,
+    updatedAt: newer.updatedAt,
+    value: {
+      lastActiveRegionId: newer.value.lastActiveRegionId,
+      lastActiveGuidanceKey: newer.value.lastActiveGuidanceKey,
+      regions: mergeStepStates(local.value.regions || {}, remote.value.regions || {}),
+      guidance: mergeStepStates(local.value.guidance || {}, remote.value.guidance || {})
+    }
+  };
+}
+
+function mergeRecords(
+  kind: SyncKind,
+  local: StoredRecord<unknown> | undefined,
+  remote: StoredRecord<unknown>
+): StoredRecord<unknown> {
+  if (!local) return remote;
+  if (kind === 'page_progress') {
+    return mergePageProgress(local as StoredRecord<PageProgress>, remote as StoredRecord<PageProgress>);
+  }
+  // Chat history is replaced wholesale by the most recent conversation
+  return remote.updatedAt > local.updatedAt ? remote : local;
+}
+
+const isSameValue = (a: StoredRecord<unknown>, b: StoredRecord<unknown>) =>
+  JSON.stringify(a.value) === JSON.stringify(b.value);
+
+const isSameRecord = (a: StoredRecord<unknown>, b: StoredRecord<unknown>) =>
+  a.updatedAt === b.updatedAt && isSameValue(a, b);
+
+/**
+ * Pulls changes from other devices into the local store and returns the records whose merged
+ * value differs from the server copy, so they are pushed back.
+ */
+async function pullChanges(syncCode: string): Promise<{ kind: SyncKind; record: StoredRecord<unknown> }[]> {
+  const pulledAt = await getPreference('progressSyncPulledAt');
+  const since = pulledAt ? new Date(new Date(pulledAt).getTime() - PULL_OVERLAP_MS).toISOString() : null;
+
+  const { data, error } = await getSupabaseClient().rpc('pull_learner_progress', {
+    p_sync_code: syncCode,
+    p_since: since
+  });
+  if (error) throw error;
+
+  const rows = (data || []) as RemoteProgressRecord[];
+  const toPush: { kind: SyncKind; record: StoredRecord<unknown> }[] = [];
+
+  for (const row of rows) {
+    const storeName = STORE_BY_KIND[row.kind];
+    if (!storeName) continue;
+
+    const remote: StoredRecord<unknown> = { key: row.record_key, value: row.value, updatedAt: row.updated_at };
+    const local = await getStoredRecord<unknown>(storeName, row.record_key);
+    // The server brings write times ahead of its clock back to it; take its copy of an unchanged
+    // record rather than pushing the later time again
+    const merged = local && isSameValue(local, remote) ? remote : mergeRecords(row.kind, local, remote);
+
+    if (!local || !isSameRecord(local, merged)) {
+      await putMergedRecord(storeName, merged);
+    }
+    if (!isSameRecord(remote, merged)) {
+      toPush.push({ kind: row.kind, record: merged });
+    }
+  }
+
+  const newestPull = rows.reduce<string | null>(
+    (newest, row) => (!newest || row.synced_at > newest ? row.synced_at : newest),
+    pulledAt || null
+  );
+  if (newestPull) {
+    await setPreference('progressSyncPulledAt', newestPull);
+  }
+
+  return toPush;
+}
+
+/**
+ * Splits records into pushes within the server's limits. A record too large to push on its own
+ * is left out, so it doesn't hold back the others.
+ */
+function toPushBatches<T>(records: T[]): T[][] {
+  const encoder = new TextEncoder();
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let batchBytes = 2; // the array's brackets
+
+  for (const record of records) {
+    const bytes = encoder.encode(JSON.stringify(record)).length + 1;
+    if (bytes + 2 > MAX_PUSH_BYTES) {
+      console.warn('Progress record is too large to sync:', record);
+      continue;
+    }
+    if (batch.length === MAX_PUSH_RECORDS || batchBytes + bytes > MAX_PUSH_BYTES) {
+      batches.push(batch);
+      batch = [];
+      batchBytes = 2;
+    }
+    batch.push(record);
+    batchBytes += bytes;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Pushes the records written on this device since the last push, plus the merged ones. The push
+ * cursor follows local write times, not `updatedAt`: merged records keep the other device's
+ * timestamp, and a clock running ahead there would otherwise hide later edits made here.
+ */
+async function pushChanges(syncCode: string, mergedRecords: { kind: SyncKind; record: StoredRecord<unknown> }[]): Promise<void> {
+  const pushedAt = (await getPreference('progressSyncPushedAt')) || 0;
+
+  const records = new Map<string, { kind: SyncKind; record: StoredRecord<unknown> }>();
+  let newestPush = pushedAt;
+  for (const { kind, storeName } of SYNCED_STORES) {
+    const changed = await listRecordsWrittenSince(storeName, pushedAt);
+    changed.forEach(record => {
+      records.set(`${kind}:${record.key}`, { kind, record });
+      newestPush = Math.max(newestPush, record.writtenAt || 0);
+    });
+  }
+  mergedRecords.forEach(entry => records.set(`${entry.kind}:${entry.record.key}`, entry));
+  if (records.size === 0) return;
+
+  const payload = Array.from(records.values()).map(({ kind, record }) => ({
+    kind,
+    record_key: record.key,
+    value: record.value,
+    updated_at: record.updatedAt
+  }));
+
+  for (const batch of toPushBatches(payload)) {
+    const { error } = await getSupabaseClient().rpc('push_learner_progress', {
+      p_sync_code: syncCode,
+      p_records: batch as Json
+    });
+    if (error) throw error;
+  }
+
+  await setPreference('progressSyncPushedAt', newestPush);
+}
+
+let inFlightSync: Promise<void> | null = null;
+let syncQueued = false;
+
+/**
+ * Pulls changes from other devices, then pushes local changes. Does nothing when sync is off.
+ * Concurrent calls share the running sync and schedule one more pass after it.
+ */
+export function syncProgress(): Promise<void> {
+  if (inFlightSync) {
+    syncQueued = true;
+    return inFlightSync;
+  }
+
+  inFlightSync = (async () => {
+    const syncCode = status.syncCode;
+    if (!syncCode || !isProgressSyncAvailable()) return;
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      setStatus({ state: 'offline' });
+      return;
+    }
+
+    setStatus({ state: 'syncing' });
+    try {
+      const mergedRecords = await pullChanges(syncCode);
+      await pushChanges(syncCode, mergedRecords);
+      setStatus({ state: 'idle', lastSyncedAt: Date.now() });
+    } catch (error) {
+      console.warn('Progress sync failed:', error);
+      setStatus({ state: 'error' });
+    }
+  })().finally(() => {
+    inFlightSync = null;
+    if (syncQueued) {
+      syncQueued = false;
+      void syncProgress();
+    }
+  });
+
+  return inFlightSync;
+}
+
+let initialSync: Promise<void> | null = null;
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Starts background sync: an initial pull, a debounced push after local changes, and a pass
+ * whenever the app comes back online or to the foreground. Safe to call more than once.
+ */
+export function startProgressSync(): Promise<void> {
+  if (initialSync) return initialSync;
+
+  initialSync = (async () => {
+    if (!isProgressSyncAvailable()) return;
+
+    const syncCode = await getPreference('progressSyncCode').catch(() => undefined);
+    if (!syncCode) return;
+
+    setStatus({ state: 'idle', syncCode });
+    await syncProgress();
+  })();
+
+  subscribeToProgressChanges(() => {
+    if (!status.syncCode) return;
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => {
+      pushTimer = null;
+      void syncProgress();
+    }, PUSH_DEBOUNCE_MS);
+  });
+
+  window.addEventListener('online', () => void syncProgress());
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      void syncProgress();
+    } else if (pushTimer) {
+      // Flush pending changes before the app is backgrounded (and possibly closed)
+      clearTimeout(pushTimer);
+      pushTimer = null;
+      void syncProgress();
+    }
+  });
+
+  return initialSync;
+}
+
+/**
+ * Resolves once the first pull after app start has finished, or after `timeoutMs`,
+ * so a page can load progress made on another device without waiting on a slow network.
+ */
+export function waitForInitialProgressSync(timeoutMs = 3000): Promise<void> {
+  if (!initialSync) return Promise.resolve();
+  return Promise.race([
+    initialSync.catch(() => undefined),
+    new Promise<void>(resolve => setTimeout(resolve, timeoutMs))
+  ]);
+}
+
+/**
+ * Turns sync on, either with a code from another device or a newly generated one
+ */
+export async function enableProgressSync(code?: string): Promise<string> {
+  if (!isProgressSyncAvailable()) {
+    throw new Error('Progress sync requires Supabase to be configured');
+  }
+
+  const syncCode = code ? normalizeSyncCode(code) : generateSyncCode();
+  if (!syncCode) {
+    throw new Error('Invalid sync code');
+  }
+
+  await setPreference('progressSyncCode', syncCode);
+  // Start from scratch so everything on this device is pushed and everything on the server is pulled
+  await removePreference('progressSyncPulledAt');
+  await removePreference('progressSyncPushedAt');
+
+  setStatus({ state: 'idle', syncCode, lastSyncedAt: null });
+  await syncProgress();
+  return syncCode;
+}
+
+/**
+ * Turns sync off on this device. Progress already on the server is left for other devices.
+ */
+export async function disableProgressSync(): Promise<void> {
+  await removePreference('progressSyncCode');
+  await removePreference('progressSyncPulledAt');
+  await removePreference('progressSyncPushedAt');
+  setStatus({ state: 'disabled', syncCode: null, lastSyncedAt: null });
+}
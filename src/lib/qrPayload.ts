@@ -0,0 +1,237 @@
+/**
+ * Parsing and verification of the codes printed on worksheets.
+ *
+ * Three encodings are accepted:
+ * - Legacy: letters followed by digits, e.g. `ABCDE1` (worksheet `ABCDE`, page 1)
+ * - URI:    `jooy:v1/ABCDE/1?r=<regionId>&g=<guidanceTitle>&l=<locale>&sig=<hmac>`
+ * - JSON:   `{"v":1,"id":"ABCDE","p":1,"r":"...","g":"...","l":"ar","sig":"..."}`
+ */
+
+import { getSupabaseClient, shouldUseSupabase } from "@/lib/supabase";
+
+export const QR_PAYLOAD_VERSION = 1;
+
+const URI_SCHEME = 'jooy:';
+const LEGACY_PATTERN = /^([A-Za-z]+)(\d+)$/;
+const WORKSHEET_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const LOCALE_PATTERN = /^[a-z]{2}(-[A-Za-z]{2})?$/;
+
+export interface QrPayload {
+  version: number;
+  worksheetId: string;
+  page: number;
+  regionId?: string;
+  guidanceTitle?: string;
+  locale?: string;
+  signature?: string;
+  /** True when the code used the legacy letters+digits form */
+  legacy: boolean;
+}
+
+export type QrPayloadErrorCode =
+  | 'empty'
+  | 'unrecognized'
+  | 'malformedJson'
+  | 'unsupportedVersion'
+  | 'invalidWorksheetId'
+  | 'invalidPage'
+  | 'invalidLocale'
+  | 'invalidSignature'
+  | 'missingSignature';
+
+export type QrParseResult =
+  | { ok: true; payload: QrPayload; error?: undefined }
+  | { ok: false; payload?: undefined; error: QrPayloadErrorCode };
+
+const fail = (error: QrPayloadErrorCode): QrParseResult => ({ ok: false, error });
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+/**
+ * Validates the decoded fields shared by the URI and JSON encodings
+ */
+function buildPayload(fields: {
+  version: unknown;
+  worksheetId: unknown;
+  page: unknown;
+  regionId?: unknown;
+  guidanceTitle?: unknown;
+  locale?: unknown;
+  signature?: unknown;
+}): QrParseResult {
+  const version = typeof fields.version === 'string' ? parseInt(fields.version, 10) : fields.version;
+  if (version !== QR_PAYLOAD_VERSION) {
+    return fail('unsupportedVersion');
+  }
+
+  if (typeof fields.worksheetId !== 'string' || !WORKSHEET_ID_PATTERN.test(fields.worksheetId)) {
+    return fail('invalidWorksheetId');
+  }
+
+  const page = typeof fields.page === 'string' && /^\d+$/.test(fields.page)
+    ? parseInt(fields.page, 10)
+    : fields.page;
+  if (typeof page !== 'number' || !Number.isInteger(page) || page < 1) {
+    return fail('invalidPage');
+  }
+
+  const locale = optionalString(fields.locale);
+  if (locale && !LOCALE_PATTERN.test(locale)) {
+    return fail('invalidLocale');
+  }
+
+  return {
+    ok: true,
+    payload: {
+      version,
+      worksheetId: fields.worksheetId,
+      page,
+      regionId: optionalString(fields.regionId),
+      guidanceTitle: optionalString(fields.guidanceTitle),
+      locale,
+      signature: optionalString(fields.signature)?.toLowerCase(),
+      legacy: false
+    }
+  };
+}
+
+function parseUriPayload(text: string): QrParseResult {
+  const body = text.slice(URI_SCHEME.length).replace(/^\/\//, '');
+  const [path, query = ''] = body.split('?', 2);
+  const segments = path.split('/').filter(segment => segment !== '');
+
+  if (segments.length !== 3 || !/^v\d+$/.test(segments[0])) {
+    return fail('unrecognized');
+  }
+
+  const params = new URLSearchParams(query);
+  let worksheetId: string;
+  try {
+    worksheetId = decodeURIComponent(segments[1]);
+  } catch {
+    return fail('invalidWorksheetId');
+  }
+
+  return buildPayload({
+    version: segments[0].slice(1),
+    worksheetId,
+    page: segments[2],
+    regionId: params.get('r'),
+    guidanceTitle: params.get('g'),
+    locale: params.get('l'),
+    signature: params.get('sig')
+  });
+}
+
+function parseJsonPayload(text: string): QrParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return fail('malformedJson');
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return fail('malformedJson');
+  }
+
+  const record = data as Record<string, unknown>;
+  return buildPayload({
+    version: record.v,
+    worksheetId: record.id,
+    page: record.p,
+    regionId: record.r,
+    guidanceTitle: record.g,
+    locale: record.l,
+    signature: record.sig
+  });
+}
+
+/**
+ * Parses the raw text of a scanned QR code
+ * @param text - The decoded QR text
+ * @returns The payload, or an error code describing why the code was rejected
+ */
+export function parseQrPayload(text: string): QrParseResult {
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!trimmed) {
+    return fail('empty');
+  }
+
+  const legacyMatch = trimmed.match(LEGACY_PATTERN);
+  if (legacyMatch) {
+    return {
+      ok: true,
+      payload: {
+        version: 0,
+        worksheetId: legacyMatch[1],
+        page: parseInt(legacyMatch[2], 10),
+        legacy: true
+      }
+    };
+  }
+
+  if (trimmed.toLowerCase().startsWith(URI_SCHEME)) {
+    return parseUriPayload(trimmed);
+  }
+
+  if (trimmed.startsWith('{')) {
+    return parseJsonPayload(trimmed);
+  }
+
+  return fail('unrecognized');
+}
+
+/**
+ * Builds the canonical string covered by a payload's HMAC signature.
+ * Fields are joined in a fixed order so the URI and JSON forms sign identically.
+ */
+export function getQrSigningInput(payload: QrPayload): string {
+  return [
+    `v${payload.version}`,
+    payload.worksheetId,
+    String(payload.page),
+    payload.regionId || '',
+    payload.guidanceTitle || '',
+    payload.locale || ''
+  ].join('\n');
+}
+
+/**
+ * Checks a code's signing input and signature, returning true when the code may be opened
+ */
+export type QrSignatureVerifier = (input: string, signature: string | undefined) => Promise<boolean>;
+
+/**
+ * Verifies a code with the `verify-qr` edge function, which holds the signing secret and
+ * rejects unsigned codes while signing is enabled. Throws when the server can't be reached.
+ */
+export const verifyQrSignatureOnServer: QrSignatureVerifier = async (input, signature) => {
+  const { data, error } = await getSupabaseClient().functions.invoke('verify-qr', {
+    body: { input, signature }
+  });
+  if (error) throw error;
+  return data?.valid === true;
+};
+
+/**
+ * Parses a scanned code and has its signature checked. The secret stays on the server, so codes
+ * are only verified when Supabase is configured; the static JSON setup has nothing to check
+ * them against and accepts them all. Legacy letters+digits codes can't carry a signature and
+ * are printed on worksheets already, so they are accepted without a check (and offline).
+ * Throws when the server can't be reached to check a code.
+ */
+export async function parseAndVerifyQrPayload(
+  text: string,
+  verify: QrSignatureVerifier | null = shouldUseSupabase() ? verifyQrSignatureOnServer : null
+): Promise<QrParseResult> {
+  const result = parseQrPayload(text);
+  if (!result.ok || result.payload.legacy || !verify) {
+    return result;
+  }
+
+  const valid = await verify(getQrSigningInput(result.payload), result.payload.signature);
+  if (valid) return result;
+  return fail(result.payload.signature ? 'invalidSignature' : 'missingSignature');
+}
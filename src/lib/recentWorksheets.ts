@@ -0,0 +1,99 @@
+import { runTransaction, STORES } from "@/lib/indexedDb";
+
+/**
+ * A worksheet the learner has opened, with enough state to resume where they left off
+ */
+export interface RecentWorksheetEntry {
+  worksheetId: string;
+  documentName: string;
+  mode: 'regions' | 'auto' | 'hybrid';
+  lastPage: number;
+  lastActiveRegionId: string | null;
+  /** 1-based index of the last active guidance item on lastPage (auto mode) */
+  lastActiveGuidanceKey: number | null;
+  /** Region name or guidance title shown on the home screen */
+  lastActiveLabel: string | null;
+  lastStepIndex: number;
+  /** Steps revealed per region/guidance item, keyed by `${page}_${itemKey}` */
+  stepsSeen: Record<string, number>;
+  totalSteps: number;
+  lastOpenedAt: number;
+}
+
+export type RecentWorksheetUpdate = Omit<RecentWorksheetEntry, 'stepsSeen' | 'lastOpenedAt'> & {
+  /** Steps revealed for the active item; merged into stepsSeen, never lowering a stored value */
+  activeItemStepsSeen?: { key: string; count: number } | null;
+};
+
+const MAX_RECENT_WORKSHEETS = 20;
+
+export async function getRecentWorksheet(worksheetId: string): Promise<RecentWorksheetEntry | undefined> {
+  return runTransaction<RecentWorksheetEntry | undefined>(
+    STORES.recentWorksheets,
+    'readonly',
+    store => store.get(worksheetId)
+  );
+}
+
+/**
+ * Lists recently opened worksheets, most recent first
+ */
+export async function listRecentWorksheets(limit = MAX_RECENT_WORKSHEETS): Promise<RecentWorksheetEntry[]> {
+  const entries = await runTransaction<RecentWorksheetEntry[]>(
+    STORES.recentWorksheets,
+    'readonly',
+    store => store.getAll()
+  );
+  return entries
+    .sort((a, b) => b.lastOpenedAt - a.lastOpenedAt)
+    .slice(0, limit);
+}
+
+/**
+ * Records a visit to a worksheet and the learner's current position in it
+ */
+export async function recordWorksheetVisit(update: RecentWorksheetUpdate): Promise<void> {
+  const { activeItemStepsSeen, ...fields } = update;
+  const existing = await getRecentWorksheet(update.worksheetId);
+
+  const stepsSeen = { ...(existing?.stepsSeen || {}) };
+  if (activeItemStepsSeen) {
+    stepsSeen[activeItemStepsSeen.key] = Math.max(stepsSeen[activeItemStepsSeen.key] || 0, activeItemStepsSeen.count);
+  }
+
+  const entry: RecentWorksheetEntry = {
+    ...fields,
+    stepsSeen,
+    lastOpenedAt: Date.now()
+  };
+
+  await runTransaction(STORES.recentWorksheets, 'readwrite', store => store.put(entry));
+  await pruneRecentWorksheets();
+}
+
+export async function removeRecentWorksheet(worksheetId: string): Promise<void> {
+  await runTransaction(STORES.recentWorksheets, 'readwrite', store => store.delete(worksheetId));
+}
+
+/**
+ * Fraction (0-1) of the worksheet's steps the learner has revealed
+ */
+export function getRecentWorksheetProgress(entry: RecentWorksheetEntry): number {
+  if (!entry.totalSteps) return 0;
+  const seen = Object.values(entry.stepsSeen).reduce((sum, count) => sum + count, 0);
+  return Math.min(seen / entry.totalSteps, 1);
+}
+
+async function pruneRecentWorksheets(): Promise<void> {
+  const entries = await runTransaction<RecentWorksheetEntry[]>(
+    STORES.recentWorksheets,
+    'readonly',
+    store => store.getAll()
+  );
+  if (entries.length <= MAX_RECENT_WORKSHEETS) return;
+
+  const stale = entries
+    .sort((a, b) => b.lastOpenedAt - a.lastOpenedAt)
+    .slice(MAX_RECENT_WORKSHEETS);
+  await Promise.all(stale.map(entry => removeRecentWorksheet(entry.worksheetId)));
+}
@@ -0,0 +1,144 @@
+/**
+ * Speech-to-text for the tutor chat, so learners who can't type comfortably can talk instead.
+ * The chat goes through getSpeechRecognizer(), which uses the browser's Web Speech API when it
+ * has one. An on-device or offline engine can be plugged in with setSpeechRecognizer().
+ */
+
+export interface SpeechRecognitionHandlers {
+  /** Called with everything recognised so far in the session; `isFinal` once it won't change */
+  onTranscript: (transcript: string, isFinal: boolean) => void;
+  /** Called once the session is over; `error` is set when it failed (e.g. microphone denied) */
+  onEnd: (error?: string) => void;
+}
+
+export interface SpeechRecognitionSession {
+  /** Stops listening and delivers what was heard */
+  stop(): void;
+  /** Stops listening and drops what was heard */
+  abort(): void;
+}
+
+export interface SpeechRecognizer {
+  /** Identifies the recognizer in logs */
+  readonly name: string;
+  isSupported(): boolean;
+  /** Starts listening in `language` (a BCP 47 tag such as `ar-SA`) */
+  start(language: string, handlers: SpeechRecognitionHandlers): SpeechRecognitionSession;
+}
+
+// Regional tags for the languages the app is used in; recognisers handle bare codes poorly
+const RECOGNITION_LOCALES: Record<string, string> = {
+  ar: "ar-SA",
+  en: "en-US",
+};
+
+/**
+ * Recognition locale for a language code such as those from getSpeechLanguage()
+ */
+export function getRecognitionLocale(language: string): string {
+  return RECOGNITION_LOCALES[language] || language;
+}
+
+// The parts of the Web Speech API used here, which not every TypeScript DOM lib declares
+interface WebSpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly 0: { readonly transcript: string };
+}
+
+interface WebSpeechRecognitionEvent {
+  readonly results: ArrayLike<WebSpeechRecognitionResult>;
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: WebSpeechRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionClass = new () => WebSpeechRecognition;
+
+const getWebSpeechRecognitionClass = (): WebSpeechRecognitionClass | undefined => {
+  if (typeof window === "undefined") return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionClass;
+    webkitSpeechRecognition?: WebSpeechRecognitionClass;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export function createWebSpeechRecognizer(): SpeechRecognizer {
+  return {
+    name: "web-speech",
+
+    isSupported: () => !!getWebSpeechRecognitionClass(),
+
+    start(language, { onTranscript, onEnd }) {
+      const RecognitionClass = getWebSpeechRecognitionClass();
+      if (!RecognitionClass) {
+        onEnd("not-supported");
+        return { stop: () => {}, abort: () => {} };
+      }
+
+      const recognition = new RecognitionClass();
+      recognition.lang = language;
+      // Push-to-talk: keep listening through pauses until the learner lets go
+      recognition.continuous = true;
+      recognition.interimResults = true;
+
+      let error: string | undefined;
+      let aborted = false;
+
+      recognition.onresult = event => {
+        if (aborted) return;
+        const results = Array.from(event.results);
+        const transcript = results.map(result => result[0].transcript).join("").trim();
+        onTranscript(transcript, results.every(result => result.isFinal));
+      };
+      recognition.onerror = event => {
+        // Hearing nothing is a normal outcome of push-to-talk, not a failure
+        if (event.error !== "no-speech" && event.error !== "aborted") {
+          error = event.error;
+        }
+      };
+      recognition.onend = () => onEnd(error);
+
+      try {
+        recognition.start();
+      } catch (startError) {
+        console.warn("Speech recognition failed to start:", startError);
+        recognition.onend = null;
+        onEnd("start-failed");
+      }
+
+      return {
+        stop: () => recognition.stop(),
+        abort: () => {
+          aborted = true;
+          recognition.abort();
+        },
+      };
+    },
+  };
+}
+
+let recognizer: SpeechRecognizer | null = null;
+
+export function getSpeechRecognizer(): SpeechRecognizer {
+  if (!recognizer) {
+    recognizer = createWebSpeechRecognizer();
+  }
+  return recognizer;
+}
+
+/**
+ * Replaces the recognizer used by getSpeechRecognizer(); pass null to go back to Web Speech
+ */
+export function setSpeechRecognizer(nextRecognizer: SpeechRecognizer | null): void {
+  recognizer = nextRecognizer;
+}
@@ -1,39 +1,44 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-// Create a mock client for development when Supabase is not configured
-const createMockClient = () => ({
-  from: () => ({
-    select: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-    insert: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-    update: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-    delete: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-    eq: function() { return this },
-    single: function() { return this },
-    order: function() { return this }
-  }),
-  auth: {
-    getSession: () => Promise.resolve({ data: { session: null }, error: null }),
-    signIn: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-    signOut: () => Promise.resolve({ error: null }),
-  },
-})
-
 // Check if environment variables are properly configured
-const isSupabaseConfigured = supabaseUrl && supabaseAnonKey && 
-  supabaseUrl !== 'your_supabase_url_here' && 
+const isSupabaseConfigured = !!supabaseUrl && !!supabaseAnonKey &&
+  supabaseUrl !== 'your_supabase_url_here' &&
   supabaseAnonKey !== 'your_supabase_anon_key_here'
 
-export const supabase = isSupabaseConfigured 
+/**
+ * The app's single Supabase client, or null when Supabase isn't configured
+ * (the app then runs from the static JSON files in /public/data).
+ */
+export const supabase: SupabaseClient<Database> | null = isSupabaseConfigured
   ? createClient<Database>(supabaseUrl, supabaseAnonKey)
-  : createMockClient() as any
+  : null
 
 export const isSupabaseReady = isSupabaseConfigured
 
 // Helper function to check if we should use Supabase or fallback to JSON
 export const shouldUseSupabase = () => isSupabaseConfigured
 
-export type { Database }
\ No newline at end of file
+/**
+ * URL and headers for calling an edge function with fetch directly, for streamed responses
+ * that `supabase.functions.invoke` can't hand over piece by piece
+ */
+export const getEdgeFunctionEndpoint = (name: string) => ({
+  url: `${supabaseUrl}/functions/v1/${name}`,
+  headers: { Authorization: `Bearer ${supabaseAnonKey}`, apikey: supabaseAnonKey }
+})
+
+/**
+ * Returns the Supabase client, throwing if it isn't configured. Use after checking shouldUseSupabase().
+ */
+export const getSupabaseClient = (): SupabaseClient<Database> => {
+  if (!supabase) {
+    throw new Error('Supabase is not configured: set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY')
+  }
+  return supabase
+}
+
+export type { Database }
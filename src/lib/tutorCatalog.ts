@@ -0,0 +1,86 @@
+import { z } from "zod";
+import type { VirtualTutor, TutorVideoSegment, TutorVideoState } from "@/types/tutor";
+
+/**
+ * The virtual tutors learners can pick from, listed in `/video/tutors.json` so new tutors
+ * (with their own video cut) can be added without code changes.
+ */
+
+const TUTOR_CATALOG_URL = "/video/tutors.json";
+
+const segmentSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive(),
+}).refine(segment => segment.end > segment.start, { message: 'Segment must end after it starts', path: ['end'] });
+
+const tutorCatalogSchema = z.object({
+  tutors: z.array(z.object({
+    id: z.string().min(1),
+    name: z.record(z.string(), z.string()),
+    videoSrc: z.string().min(1),
+    posterSrc: z.string().min(1),
+    segments: z.object({
+      idle: segmentSchema,
+      talking: segmentSchema,
+      emphasis: segmentSchema.optional(),
+    }),
+    voice: z.record(z.string(), z.string()).optional(),
+  })).min(1),
+});
+
+// Used when the catalog can't be loaded, so narration keeps its tutor
+export const DEFAULT_TUTOR: VirtualTutor = {
+  id: "tutor1",
+  name: { en: "Virtual Tutor 1", ar: "المعلم الافتراضي 1" },
+  videoSrc: "/video/1.mp4",
+  posterSrc: "/video/1.jpg",
+  segments: {
+    idle: { start: 0, end: 10 },
+    talking: { start: 10, end: 20 },
+  },
+};
+
+export async function loadTutorCatalog(): Promise<VirtualTutor[]> {
+  try {
+    const response = await fetch(TUTOR_CATALOG_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch tutor catalog: ${response.status}`);
+    }
+    return tutorCatalogSchema.parse(await response.json()).tutors as VirtualTutor[];
+  } catch (error) {
+    console.warn('Using the default tutor:', error);
+    return [DEFAULT_TUTOR];
+  }
+}
+
+/**
+ * Finds a saved tutor choice. Choices saved before the catalog existed are video URLs.
+ */
+export function findTutor(tutors: VirtualTutor[], savedChoice: string | undefined): VirtualTutor | undefined {
+  if (!savedChoice) return undefined;
+  return tutors.find(tutor => tutor.id === savedChoice || tutor.videoSrc === savedChoice);
+}
+
+export function getTutorName(tutor: VirtualTutor, language: string): string {
+  return tutor.name[language] || tutor.name.en || Object.values(tutor.name)[0] || tutor.id;
+}
+
+// Seek slightly before a segment's end, so the video never shows the first frame of the next one
+const SEGMENT_END_MARGIN = 0.1;
+
+export function getTutorSegment(tutor: VirtualTutor, state: TutorVideoState): TutorVideoSegment {
+  if (state === 'emphasis') return tutor.segments.emphasis || tutor.segments.talking;
+  return state === 'talking' ? tutor.segments.talking : tutor.segments.idle;
+}
+
+/**
+ * Where to seek the tutor video to keep it looping inside the segment for its state,
+ * or null when it is already inside the right one
+ */
+export function getTutorLoopSeekTime(tutor: VirtualTutor, currentTime: number, state: TutorVideoState): number | null {
+  const segment = getTutorSegment(tutor, state);
+  if (currentTime < segment.start || currentTime >= segment.end - SEGMENT_END_MARGIN) {
+    return segment.start;
+  }
+  return null;
+}
@@ -0,0 +1,115 @@
+import { transcriptSchema } from "@/lib/worksheetSchema";
+import type { TranscriptCue } from "@/types/worksheet";
+
+/**
+ * Word timings for highlighting narrated text as it is spoken. Timings come from the step's
+ * `transcript` in the worksheet metadata, or from a WebVTT (`.vtt`) or JSON cue list (`.json`)
+ * file next to the recording, e.g. `/audio/ABCDE/1_1_2.vtt` for `/audio/ABCDE/1_1_2.mp3`.
+ * Cues may cover single words or whole phrases; a phrase's time is shared evenly between its words.
+ */
+
+const TIMESTAMP_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{3})/;
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) return null;
+  const [, hours, minutes, seconds, milliseconds] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(milliseconds) / 1000;
+};
+
+/**
+ * Reads the cues of a WebVTT file, ignoring headers, notes and styling tags
+ */
+export function parseWebVtt(content: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+
+  content.replace(/\r\n?/g, "\n").split(/\n{2,}/).forEach(block => {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => line.includes("-->"));
+    if (timingIndex === -1) return;
+
+    const [startText, endText] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText || "");
+    const text = lines.slice(timingIndex + 1).join(" ").replace(/<[^>]+>/g, "").trim();
+    if (start === null || end === null || !text) return;
+
+    cues.push({ start, end, text });
+  });
+
+  return cues;
+}
+
+// Splitting keeps the whitespace, so joining the tokens gives back the original text
+export function splitWords(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token !== "");
+}
+
+export const isWordToken = (token: string) => token.trim() !== "";
+
+/**
+ * Timing for each word of `text`, in order. Words are matched to cues by position rather than
+ * spelling, so punctuation or diacritics that differ between the text and the cues don't matter.
+ * Words beyond the last cue get null.
+ */
+export function alignWordTimings(text: string, cues: TranscriptCue[]): (TranscriptCue | null)[] {
+  const wordTimings: TranscriptCue[] = [];
+
+  cues.forEach(cue => {
+    const cueWords = cue.text.split(/\s+/).filter(Boolean);
+    const wordDuration = (cue.end - cue.start) / Math.max(cueWords.length, 1);
+    cueWords.forEach((word, index) => {
+      const start = cue.start + index * wordDuration;
+      wordTimings.push({ start, end: start + wordDuration, text: word });
+    });
+  });
+
+  return splitWords(text)
+    .filter(isWordToken)
+    .map((_, index) => wordTimings[index] || null);
+}
+
+/**
+ * Index of the word being spoken at `time`, or -1 between words
+ */
+export function findActiveWordIndex(wordTimings: (TranscriptCue | null)[], time: number): number {
+  return wordTimings.findIndex(timing => !!timing && timing.start <= time && time < timing.end);
+}
+
+const transcriptCache = new Map<string, Promise<TranscriptCue[] | null>>();
+
+// Signed URLs can't be rewritten, so only plain file URLs have files next to them
+const getSidecarUrls = (audioUrl: string): string[] => {
+  if (audioUrl.includes("?") || !/\.[a-z0-9]+$/i.test(audioUrl)) return [];
+  return [".vtt", ".json"].map(extension => audioUrl.replace(/\.[a-z0-9]+$/i, extension));
+};
+
+const fetchTranscript = async (url: string): Promise<TranscriptCue[] | null> => {
+  const response = await fetch(url);
+  // Static hosts may answer missing files with the app's index.html
+  if (!response.ok || (response.headers.get("content-type") || "").startsWith("text/html")) return null;
+
+  if (url.endsWith(".vtt")) {
+    const content = await response.text();
+    return content.trimStart().startsWith("WEBVTT") ? parseWebVtt(content) : null;
+  }
+
+  const data: unknown = await response.json();
+  const result = transcriptSchema.safeParse(Array.isArray(data) ? data : (data as { cues?: unknown })?.cues);
+  return result.success ? result.data as TranscriptCue[] : null;
+};
+
+/**
+ * Loads the word timings stored next to a recording, or null when it has none
+ */
+export function loadSidecarTranscript(audioUrl: string): Promise<TranscriptCue[] | null> {
+  let transcript = transcriptCache.get(audioUrl);
+  if (!transcript) {
+    transcript = getSidecarUrls(audioUrl).reduce<Promise<TranscriptCue[] | null>>(
+      (previous, url) => previous.then(cues => cues || fetchTranscript(url).catch(() => null)),
+      Promise.resolve(null)
+    );
+    transcriptCache.set(audioUrl, transcript);
+  }
+  return transcript;
+}
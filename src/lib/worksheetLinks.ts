@@ -0,0 +1,90 @@
+/**
+ * Builders for the URL-addressable worksheet routes:
+ * - `/worksheet/:id/:n`
+ * - `/worksheet/:id/:n/region/:regionId?step=k`
+ * - `/worksheet/:id/:n/guidance/:guidanceKey?step=k`
+ *
+ * `step` and numeric guidance keys are 1-based so teachers can write links like
+ * "question 3, hint 2" directly. Guidance items linked by title are written as `t:<title>`,
+ * so a title made of digits isn't read as an index; other non-numeric keys are matched
+ * against the title too.
+ */
+
+import type { AutoModeGuidanceItem, AutoModePageData } from "@/types/worksheet";
+
+const TITLE_KEY_PREFIX = "t:";
+
+export interface WorksheetLinkTarget {
+  worksheetId: string;
+  page: number;
+  regionId?: string | null;
+  /** 1-based index of the guidance item within its page */
+  guidanceKey?: number | null;
+  /** Title of the guidance item, for links made without the page's guidance at hand */
+  guidanceTitle?: string | null;
+  /** 0-based step index, as tracked by the viewers */
+  stepIndex?: number;
+}
+
+/**
+ * Builds the path for a worksheet page, optionally pointing into a region or guidance item
+ */
+export function buildWorksheetPath({ worksheetId, page, regionId, guidanceKey, guidanceTitle, stepIndex = 0 }: WorksheetLinkTarget): string {
+  const basePath = `/worksheet/${encodeURIComponent(worksheetId)}/${page}`;
+  const stepQuery = stepIndex > 0 ? `?step=${stepIndex + 1}` : '';
+
+  if (regionId) {
+    return `${basePath}/region/${encodeURIComponent(regionId)}${stepQuery}`;
+  }
+
+  if (guidanceKey !== undefined && guidanceKey !== null) {
+    return `${basePath}/guidance/${guidanceKey}${stepQuery}`;
+  }
+
+  if (guidanceTitle) {
+    return `${basePath}/guidance/${encodeURIComponent(TITLE_KEY_PREFIX + guidanceTitle)}${stepQuery}`;
+  }
+
+  return basePath;
+}
+
+/**
+ * Converts the 1-based `step` query parameter into a 0-based step index
+ * @returns The step index, or 0 when the parameter is missing or invalid
+ */
+export function parseStepParam(step: string | null): number {
+  if (!step || !/^\d+$/.test(step)) {
+    return 0;
+  }
+  return Math.max(parseInt(step, 10) - 1, 0);
+}
+
+/**
+ * Resolves a guidance key from the URL (1-based index, `t:<title>` or title) against a page's
+ * guidance items
+ */
+export function findGuidanceItemByKey(pageData: AutoModePageData | undefined, guidanceKey: string): AutoModeGuidanceItem | undefined {
+  if (!pageData || !guidanceKey) return undefined;
+
+  if (guidanceKey.startsWith(TITLE_KEY_PREFIX)) {
+    const title = guidanceKey.slice(TITLE_KEY_PREFIX.length);
+    const guidanceItem = pageData.guidance.find(item => item.title === title);
+    // Otherwise the prefix may be part of a title linked the old way
+    if (guidanceItem) return guidanceItem;
+  }
+
+  if (/^\d+$/.test(guidanceKey)) {
+    return pageData.guidance[parseInt(guidanceKey, 10) - 1];
+  }
+
+  return pageData.guidance.find(item => item.title === guidanceKey);
+}
+
+/**
+ * Returns the 1-based URL key of a guidance item within its page
+ */
+export function getGuidanceItemKey(pageData: AutoModePageData | undefined, guidanceItem: AutoModeGuidanceItem): number | null {
+  if (!pageData) return null;
+  const index = pageData.guidance.findIndex(item => item.title === guidanceItem.title);
+  return index >= 0 ? index + 1 : null;
+}
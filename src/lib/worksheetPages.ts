@@ -0,0 +1,69 @@
+import { isAutoModeMetadata, isHybridModeMetadata } from "@/types/worksheet";
+import type {
+  WorksheetMetadata,
+  RegionData,
+  AutoModePageData,
+  PageMode
+} from "@/types/worksheet";
+
+/**
+ * Per-page access to worksheet metadata, hiding whether the document is in regions,
+ * auto or hybrid mode. Code that renders or tracks one page should go through these
+ * instead of checking the document's mode.
+ */
+
+export function getAllRegions(meta: WorksheetMetadata): RegionData[] {
+  if (isAutoModeMetadata(meta)) return [];
+  return meta.regions || [];
+}
+
+export function getPageRegions(meta: WorksheetMetadata, page: number): RegionData[] {
+  return getAllRegions(meta).filter(region => region.page === page);
+}
+
+/**
+ * Every page that has guidance, in the Auto Mode page shape
+ */
+export function getAllGuidancePages(meta: WorksheetMetadata): AutoModePageData[] {
+  if (isAutoModeMetadata(meta)) return meta.data;
+  if (isHybridModeMetadata(meta)) {
+    return meta.pages
+      .filter(page => page.guidance && page.guidance.length > 0)
+      .map(page => ({
+        page_number: page.page_number,
+        page_description: page.page_description || '',
+        guidance: page.guidance || []
+      }));
+  }
+  return [];
+}
+
+export function getPageGuidance(meta: WorksheetMetadata, page: number): AutoModePageData | undefined {
+  return getAllGuidancePages(meta).find(pageData => pageData.page_number === page);
+}
+
+/**
+ * The viewer a page opens in by default
+ */
+export function getPageMode(meta: WorksheetMetadata, page: number): PageMode {
+  if (isAutoModeMetadata(meta)) return 'auto';
+  if (isHybridModeMetadata(meta)) {
+    return meta.pages.find(pageData => pageData.page_number === page)?.mode || 'regions';
+  }
+  return 'regions';
+}
+
+/**
+ * True when the learner can switch the page between the regions (PDF) view and the guidance view
+ */
+export function canSwitchPageMode(meta: WorksheetMetadata, page: number): boolean {
+  return isHybridModeMetadata(meta) && !!getPageGuidance(meta, page)?.guidance.length;
+}
+
+export function getDocumentName(meta: WorksheetMetadata): string | null {
+  return isAutoModeMetadata(meta) ? null : meta.documentName || null;
+}
+
+export function getDrmProtectedPages(meta: WorksheetMetadata): number[] | boolean {
+  return isAutoModeMetadata(meta) ? [] : meta.drmProtectedPages;
+}
@@ -0,0 +1,159 @@
+import { getSupabaseClient, shouldUseSupabase } from "@/lib/supabase";
+import type { Tables } from "@/types/database";
+import { parseWorksheetMetadata } from "@/lib/worksheetSchema";
+import { getPageRegions } from "@/lib/worksheetPages";
+import type { WorksheetData, RegionData } from "@/types/worksheet";
+
+/**
+ * Read access to worksheets, independent of where they are stored. Hooks go through
+ * getWorksheetRepository(); the backend is Supabase when configured, otherwise the static
+ * JSON files in /public, and tests can swap in an in-memory one with setWorksheetRepository().
+ */
+export interface WorksheetRepository {
+  /**
+   * Metadata and PDF URL; rejects with WorksheetNotFoundError for unknown IDs and
+   * WorksheetValidationError for malformed metadata
+   */
+  getWorksheet(worksheetId: string): Promise<WorksheetData>;
+  /** Regions on one page, in creation order; empty for Auto Mode worksheets and guidance-only pages */
+  getRegionsByPage(worksheetId: string, page: number): Promise<RegionData[]>;
+}
+
+export class WorksheetNotFoundError extends Error {
+  constructor(public readonly worksheetId: string) {
+    super(`Worksheet not found: ${worksheetId}`);
+    this.name = 'WorksheetNotFoundError';
+  }
+}
+
+/**
+ * Maps a `document_regions` row to the region shape used throughout the app. The `audio` column
+ * holds storage paths that only the `get-worksheet-data` edge function can sign, so it is left out.
+ */
+export function toRegionData(row: Tables<'document_regions'>): RegionData {
+  return {
+    id: row.id,
+    document_id: row.document_id,
+    user_id: row.user_id || '',
+    page: row.page,
+    x: row.x,
+    y: row.y,
+    width: row.width,
+    height: row.height,
+    type: row.type,
+    name: row.name,
+    description: row.description || [],
+    created_at: row.created_at || ''
+  };
+}
+
+/**
+ * Worksheets stored in Supabase. Metadata and the signed PDF URL come from the `get-worksheet-data`
+ * edge function (the PDF bucket is private); regions are read from `document_regions` directly.
+ */
+export function createSupabaseWorksheetRepository(): WorksheetRepository {
+  return {
+    async getWorksheet(worksheetId) {
+      const { data, error } = await getSupabaseClient().functions.invoke('get-worksheet-data', {
+        body: { worksheetId },
+      });
+
+      if (error) {
+        if ((error as { context?: Response }).context?.status === 404) {
+          throw new WorksheetNotFoundError(worksheetId);
+        }
+        throw new Error(`Failed to fetch worksheet: ${error.message}`);
+      }
+
+      if (!data?.meta || !data?.pdfUrl) {
+        throw new Error('Invalid response from worksheet data function');
+      }
+
+      return { meta: parseWorksheetMetadata(worksheetId, data.meta), pdfUrl: data.pdfUrl };
+    },
+
+    async getRegionsByPage(worksheetId, page) {
+      const { data, error } = await getSupabaseClient()
+        .from('document_regions')
+        .select('*')
+        .eq('document_id', worksheetId)
+        .eq('page', page)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch regions: ${error.message}`);
+      }
+
+      return (data || []).map(toRegionData);
+    },
+  };
+}
+
+/**
+ * Worksheets bundled as static files: `/data/{id}.json` for metadata and `/pdfs/{id}.pdf`
+ */
+export function createJsonWorksheetRepository(baseUrl = ''): WorksheetRepository {
+  const fetchMetadata = async (worksheetId: string) => {
+    const response = await fetch(`${baseUrl}/data/${worksheetId}.json`);
+    if (response.status === 404) {
+      throw new WorksheetNotFoundError(worksheetId);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch worksheet data: ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    async getWorksheet(worksheetId) {
+      const meta = parseWorksheetMetadata(worksheetId, await fetchMetadata(worksheetId));
+      return { meta, pdfUrl: `${baseUrl}/pdfs/${worksheetId}.pdf` };
+    },
+
+    async getRegionsByPage(worksheetId, page) {
+      const meta = parseWorksheetMetadata(worksheetId, await fetchMetadata(worksheetId));
+      return getPageRegions(meta, page);
+    },
+  };
+}
+
+/**
+ * Worksheets held in memory, for tests and storybook-style previews
+ */
+export function createMemoryWorksheetRepository(worksheets: Record<string, WorksheetData> = {}): WorksheetRepository {
+  const getStoredWorksheet = (worksheetId: string) => {
+    const worksheet = worksheets[worksheetId];
+    if (!worksheet) {
+      throw new WorksheetNotFoundError(worksheetId);
+    }
+    return worksheet;
+  };
+
+  return {
+    async getWorksheet(worksheetId) {
+      return getStoredWorksheet(worksheetId);
+    },
+
+    async getRegionsByPage(worksheetId, page) {
+      return getPageRegions(getStoredWorksheet(worksheetId).meta, page);
+    },
+  };
+}
+
+let repository: WorksheetRepository | null = null;
+
+export function getWorksheetRepository(): WorksheetRepository {
+  if (!repository) {
+    repository = shouldUseSupabase()
+      ? createSupabaseWorksheetRepository()
+      : createJsonWorksheetRepository();
+  }
+  return repository;
+}
+
+/**
+ * Replaces the backend used by getWorksheetRepository(); pass null to go back to the default
+ */
+export function setWorksheetRepository(nextRepository: WorksheetRepository | null): void {
+  repository = nextRepository;
+}
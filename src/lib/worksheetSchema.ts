@@ -0,0 +1,197 @@
+import { z } from "zod";
+import type { WorksheetMetadata } from "@/types/worksheet";
+
+/**
+ * Runtime validation of worksheet metadata, for both the static JSON files and the
+ * `get-worksheet-data` edge function response. Malformed metadata is reported up front,
+ * with the offending regions/pages and fields, instead of crashing inside the viewers.
+ */
+
+// Columns that are nullable in `document_regions` are normalized to empty strings
+const optionalText = z.string().nullish().transform(value => value ?? '');
+
+/**
+ * Timed words or phrases of a narrated step, in seconds from the start of its audio
+ */
+export const transcriptSchema = z.array(z.object({
+  start: z.number().min(0),
+  end: z.number().min(0),
+  text: z.string(),
+}).refine(cue => cue.end >= cue.start, { message: 'Cue ends before it starts', path: ['end'] }));
+
+const stepAudioSchema = z.object({
+  url: z.string().min(1),
+  duration: z.number().positive().optional(),
+  mime_type: z.string().startsWith('audio/').optional(),
+  transcript: transcriptSchema.optional(),
+});
+
+const regionSchema = z.object({
+  id: z.string().min(1),
+  document_id: optionalText,
+  user_id: optionalText,
+  page: z.number().int().min(1),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  type: z.string(),
+  name: z.string(),
+  description: z.array(z.string()),
+  created_at: optionalText,
+  audio: z.array(stepAudioSchema.nullable()).nullish().transform(value => value ?? undefined),
+});
+
+const regionsModeSchema = z.object({
+  documentName: z.string(),
+  documentId: z.string(),
+  regions: z.array(regionSchema),
+  drmProtectedPages: z.union([z.array(z.number().int()), z.boolean()]).default([]),
+});
+
+const pageFraction = z.number().min(0).max(1);
+
+const guidanceItemSchema = z.object({
+  id: z.string().min(1).optional(),
+  title: z.string().min(1),
+  description: z.string(),
+  area: z.object({
+    x: pageFraction,
+    y: pageFraction,
+    width: pageFraction.positive(),
+    height: pageFraction.positive(),
+  }).refine(
+    area => area.x + area.width <= 1 && area.y + area.height <= 1,
+    { message: 'Area must lie within the page' }
+  ).optional(),
+});
+
+const autoModeSchema = z.object({
+  mode: z.literal('auto'),
+  data: z.array(z.object({
+    page_number: z.number().int().min(1),
+    page_description: z.string(),
+    guidance: z.array(guidanceItemSchema),
+  })),
+});
+
+const hybridModeSchema = z.object({
+  mode: z.literal('hybrid'),
+  documentName: z.string(),
+  documentId: z.string(),
+  regions: z.array(regionSchema).default([]),
+  drmProtectedPages: z.union([z.array(z.number().int()), z.boolean()]).default([]),
+  pages: z.array(z.object({
+    page_number: z.number().int().min(1),
+    mode: z.enum(['regions', 'auto']),
+    page_description: z.string().optional(),
+    guidance: z.array(guidanceItemSchema).optional(),
+  }).refine(
+    page => page.mode !== 'auto' || (page.guidance?.length ?? 0) > 0,
+    { message: 'Pages in auto mode need at least one guidance item', path: ['guidance'] }
+  )),
+});
+
+const SCHEMAS_BY_MODE = {
+  auto: autoModeSchema,
+  hybrid: hybridModeSchema,
+};
+
+export interface WorksheetValidationIssue {
+  /** Location in the metadata, e.g. `regions[3].description` */
+  path: string;
+  /** The last path segment, e.g. `description` */
+  field: string;
+  /** ID of the region the issue is in (Regions Mode) */
+  regionId?: string;
+  /** Page the issue is on (Auto/Hybrid Mode), and the guidance item's title when inside one */
+  pageNumber?: number;
+  guidanceTitle?: string;
+  message: string;
+}
+
+export class WorksheetValidationError extends Error {
+  constructor(
+    public readonly worksheetId: string,
+    public readonly issues: WorksheetValidationIssue[]
+  ) {
+    super(`Worksheet ${worksheetId} has invalid metadata (${issues.length} ${issues.length === 1 ? 'issue' : 'issues'})`);
+    this.name = 'WorksheetValidationError';
+  }
+}
+
+export type WorksheetValidationResult =
+  | { ok: true; meta: WorksheetMetadata; issues?: undefined }
+  | { ok: false; meta?: undefined; issues: WorksheetValidationIssue[] };
+
+const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (formatted, segment) => typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment,
+    ''
+  );
+
+/**
+ * Turns a zod issue into a report entry, naming the region or page it belongs to
+ * from the raw data (the parsed value isn't available when validation fails).
+ */
+const toValidationIssue = (issue: z.ZodIssue, data: unknown): WorksheetValidationIssue => {
+  const raw = data as {
+    regions?: { id?: unknown }[];
+    data?: { page_number?: unknown; guidance?: { title?: unknown }[] }[];
+    pages?: { page_number?: unknown; guidance?: { title?: unknown }[] }[];
+  };
+  const [section, index, nestedSection, nestedIndex] = issue.path;
+  const lastSegment = issue.path[issue.path.length - 1];
+  const report: WorksheetValidationIssue = {
+    path: formatPath(issue.path) || '(root)',
+    field: typeof lastSegment === 'string' ? lastSegment : formatPath(issue.path.slice(-2)),
+    message: issue.message,
+  };
+
+  if (section === 'regions' && typeof index === 'number') {
+    const regionId = raw.regions?.[index]?.id;
+    if (typeof regionId === 'string' && regionId) report.regionId = regionId;
+  } else if ((section === 'data' || section === 'pages') && typeof index === 'number') {
+    const page = raw[section]?.[index];
+    if (typeof page?.page_number === 'number') report.pageNumber = page.page_number;
+    if (nestedSection === 'guidance' && typeof nestedIndex === 'number') {
+      const title = page?.guidance?.[nestedIndex]?.title;
+      if (typeof title === 'string' && title) report.guidanceTitle = title;
+    }
+  }
+
+  return report;
+};
+
+/**
+ * Validates metadata in any format. Anything with an unknown `mode` is rejected
+ * rather than being treated as Regions Mode.
+ */
+export function validateWorksheetMetadata(data: unknown): WorksheetValidationResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, issues: [{ path: '(root)', field: '(root)', message: 'Expected a JSON object' }] };
+  }
+
+  const mode = (data as { mode?: unknown }).mode;
+  if (mode !== undefined && !(typeof mode === 'string' && mode in SCHEMAS_BY_MODE)) {
+    return { ok: false, issues: [{ path: 'mode', field: 'mode', message: `Unknown mode "${String(mode)}"; expected "auto", "hybrid" or no mode` }] };
+  }
+
+  const schema = mode === undefined ? regionsModeSchema : SCHEMAS_BY_MODE[mode as keyof typeof SCHEMAS_BY_MODE];
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { ok: true, meta: result.data as WorksheetMetadata };
+  }
+  return { ok: false, issues: result.error.issues.map(issue => toValidationIssue(issue, data)) };
+}
+
+/**
+ * Validates metadata for a worksheet, throwing a WorksheetValidationError listing every problem
+ */
+export function parseWorksheetMetadata(worksheetId: string, data: unknown): WorksheetMetadata {
+  const result = validateWorksheetMetadata(data);
+  if (result.ok === false) {
+    throw new WorksheetValidationError(worksheetId, result.issues);
+  }
+  return result.meta;
+}
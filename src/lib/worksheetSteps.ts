@@ -0,0 +1,31 @@
+import type { RegionData, AutoModeGuidanceItem } from "@/types/worksheet";
+
+/**
+ * Splits a region's description into one paragraph per step.
+ * Each description entry may itself contain several newline-separated paragraphs.
+ */
+export function getRegionSteps(region: RegionData): string[] {
+  const description: unknown = region.description;
+
+  if (Array.isArray(description)) {
+    return description.flatMap(item =>
+      typeof item === 'string'
+        ? item.split('\n').filter(paragraph => paragraph.trim() !== '')
+        : []
+    );
+  }
+
+  if (typeof description === 'string') {
+    return description.split('\n').filter(paragraph => paragraph.trim() !== '');
+  }
+
+  return [];
+}
+
+/**
+ * Splits a guidance item's description into one paragraph per step
+ */
+export function getGuidanceSteps(guidanceItem: AutoModeGuidanceItem): string[] {
+  if (typeof guidanceItem.description !== 'string') return [];
+  return guidanceItem.description.split('\n').filter(paragraph => paragraph.trim() !== '');
+}
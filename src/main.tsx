@@ -3,5 +3,8 @@ import App from './App.tsx'
 import './index.css'
 import './i18n'
 import './i18n'
+import { startProgressSync } from './lib/progressSync'
+
+startProgressSync()
 
 createRoot(document.getElementById("root")!).render(<App />);
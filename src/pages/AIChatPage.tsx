@@ -1,28 +1,63 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { useParams, useNavigate, useLocation } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import i18n from "@/i18n";
 import { Document, Page, pdfjs } from "react-pdf";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ChevronLeft, Send, Loader2, User, Bot } from "lucide-react";
+import { ChevronLeft, Send, Loader2, User, Bot, Square, RotateCcw, AlertCircle, Mic, Volume2, VolumeX, Camera, X } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
 import { getTextDirection } from "@/lib/textDirection";
 import SwitchModeButton from "@/components/SwitchModeButton";
+import PhotoCaptureDialog from "@/components/PhotoCaptureDialog";
+import { getChatHistory, saveChatHistory, getChatSummary, saveChatSummary, getPageImage, savePageImage, getPreference, setPreference } from "@/lib/progressStore";
+import { waitForInitialProgressSync } from "@/lib/progressSync";
+import {
+  PAGE_IMAGE_SCALE,
+  buildSystemInstruction,
+  getFocusImageRect,
+  getGuidanceChatFocus,
+  getRegionChatFocus,
+  getHistoryWindowStart,
+  isSummaryCurrent,
+  summarizeConversation,
+  toImagePart,
+  toLlmMessages,
+  toSpokenText
+} from "@/lib/aiChat";
+import { getLlmProvider, LlmRequestError } from "@/lib/llmProvider";
+import { cropImageDataUrl } from "@/lib/imageCrop";
+import { getSpeechLanguage } from "@/lib/narration";
+import { getRecognitionLocale } from "@/lib/speechRecognition";
+import { useNarration } from "@/hooks/useNarration";
+import { useNarrationSettings } from "@/hooks/useNarrationSettings";
+import { useSpeechInput } from "@/hooks/useSpeechInput";
+import { useVirtualTutor } from "@/hooks/useVirtualTutor";
+import { useApiKeyPrompt } from "@/hooks/useApiKeyPrompt";
+import type { StoredChatMessage } from "@/types/progress";
 import type { RegionData, AutoModeGuidanceItem, WorksheetMetadata } from "@/types/worksheet";
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+interface ChatMessage extends StoredChatMessage {
+  /** Replies that are still arriving, were stopped by the learner, or failed; not saved */
+  status?: 'streaming' | 'stopped' | 'error';
+  /** Why the reply failed, shown under it */
+  error?: string;
+  /** Photo of the learner's work sent with their message (a JPEG data URL); not saved */
+  photo?: string;
 }
 
+// The conversation as saved and sent to the AI: finished (or stopped) messages only
+const toStoredMessages = (messages: ChatMessage[]): StoredChatMessage[] =>
+  messages
+    .filter(message => message.status !== 'error' && message.status !== 'streaming' && message.content)
+    .map(({ role, content }) => ({ role, content }));
+
 const AIChatPage: React.FC = () => {
   const { t } = useTranslation();
   const [isI18nReady, setIsI18nReady] = useState(false);
@@ -46,15 +81,48 @@ const AIChatPage: React.FC = () => {
   const currentStepIndex = locationState?.currentStepIndex || 0;
   const pdfUrl = locationState?.pdfUrl;
   const worksheetMeta = locationState?.worksheetMeta;
+
+  // The region or guidance item the chat was opened from, so the tutor can focus on it
+  const chatFocus = useMemo(() => {
+    if (activeRegion) return getRegionChatFocus(activeRegion, currentStepIndex);
+    if (activeGuidanceItem) return getGuidanceChatFocus(activeGuidanceItem, currentStepIndex);
+    return null;
+  }, [activeRegion, activeGuidanceItem, currentStepIndex]);
   
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [pageImage, setPageImage] = useState<string | null>(null);
   const [isGeneratingImage, setIsGeneratingImage] = useState(true);
+  // Photo of the learner's work to send with the next message
+  const [pendingPhoto, setPendingPhoto] = useState<string | null>(null);
+  const [isPhotoDialogOpen, setIsPhotoDialogOpen] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // `${worksheetId}_${pageNumber}` whose history has been loaded; saving waits for it
+  const loadedChatHistoryKeyRef = useRef<string | null>(null);
+  // Cancels the reply being streamed; cleared when the reply is finished or the page changes
+  const replyControllerRef = useRef<AbortController | null>(null);
+
+  // Replies are read aloud with the chosen tutor's voice and the narration speed
+  const { tutor } = useVirtualTutor();
+  const { rate: narrationRate } = useNarrationSettings();
+  const {
+    isSpeaking: isReadingAloud,
+    activeStep: readAloudStep,
+    play: playReadAloud,
+    stop: stopReadAloud
+  } = useNarration({ rate: narrationRate, voices: tutor.voice });
+  const [readAloud, setReadAloud] = useState(false);
+  const readAloudRef = useRef(readAloud);
+  readAloudRef.current = readAloud;
+  const getReplyKey = (index: number) => `reply-${index}`;
+
+  // Push-to-talk dictation into the message box, for learners who can't type comfortably
+  const speechInput = useSpeechInput({
+    onFinished: transcript => setInputMessage(current => current.trim() ? `${current.trim()} ${transcript}` : transcript)
+  });
 
   // Wait for i18next to be ready before rendering translated content
   useEffect(() => {
@@ -73,52 +141,89 @@ const AIChatPage: React.FC = () => {
     }
   }, []);
 
-  // Load chat history from localStorage on component mount or when worksheet/page changes
+  // Load chat history from the progress store on component mount or when worksheet/page changes
   useEffect(() => {
     if (!worksheetId || !pageNumber || !isI18nReady) return;
     
-    // DEBUG: Check session state when AIChatPage mounts
-    const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
-    const currentSessionState = sessionStorage.getItem(sessionKey);
-    console.log('🔍 [DEBUG] AIChatPage - Session state ON MOUNT:', {
-      sessionKey,
-      currentSessionState,
-      parsedState: currentSessionState ? JSON.parse(currentSessionState) : null
-    });
-    
-    const chatHistoryKey = `aiChatHistory_${worksheetId}_${pageNumber}`;
+    const chatHistoryKey = `${worksheetId}_${pageNumber}`;
+    let cancelled = false;
+    loadedChatHistoryKeyRef.current = null;
     
-    try {
-      const storedHistory = localStorage.getItem(chatHistoryKey);
-      if (storedHistory) {
-        const parsedHistory = JSON.parse(storedHistory);
-        if (Array.isArray(parsedHistory) && parsedHistory.length > 0) {
-          setMessages(parsedHistory);
+    waitForInitialProgressSync()
+      .then(() => getChatHistory(worksheetId, pageNumber))
+      .catch(error => {
+        console.warn('Failed to load chat history:', error);
+        return undefined;
+      })
+      .then(storedHistory => {
+        if (cancelled) return;
+        loadedChatHistoryKeyRef.current = chatHistoryKey;
+        
+        if (Array.isArray(storedHistory) && storedHistory.length > 0) {
+          setMessages(storedHistory);
           return; // Don't set default message if we have stored history
         }
-      }
-    } catch (error) {
-      // Suppress non-debug logs
-    }
+        
+        // Set default AI welcome message if no stored history
+        setMessages([{
+          role: 'assistant',
+          content: t('aiChat.welcome')
+        }]);
+      });
     
-    // Set default AI welcome message if no stored history
-    setMessages([{
-      role: 'assistant',
-      content: t('aiChat.welcome')
-    }]);
+    return () => {
+      cancelled = true;
+    };
   }, [worksheetId, pageNumber, isI18nReady, t]);
 
-  // Save chat history to localStorage whenever messages change
+  // Stop streaming a reply into another page's chat
+  useEffect(() => {
+    return () => {
+      replyControllerRef.current?.abort();
+      replyControllerRef.current = null;
+      setIsLoading(false);
+      setPendingPhoto(null);
+      stopReadAloud();
+    };
+  }, [worksheetId, pageNumber, stopReadAloud]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPreference('aiChatReadAloud')
+      .then(savedReadAloud => {
+        if (!cancelled && savedReadAloud !== undefined) {
+          setReadAloud(savedReadAloud);
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load read-aloud preference:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!speechInput.error) return;
+    toast({
+      title: t('aiChat.voiceInputError'),
+      description: speechInput.error === 'not-allowed' || speechInput.error === 'service-not-allowed'
+        ? t('aiChat.microphoneDenied')
+        : t('aiChat.voiceInputErrorDesc'),
+      variant: "destructive"
+    });
+  }, [speechInput.error, t]);
+
+  // Save chat history whenever messages change, once this page's history has been loaded.
+  // Replies are saved once they have finished streaming; failed ones are left out.
   useEffect(() => {
     if (!worksheetId || !pageNumber || messages.length === 0) return;
+    if (loadedChatHistoryKeyRef.current !== `${worksheetId}_${pageNumber}`) return;
+    if (messages.some(message => message.status === 'streaming')) return;
     
-    const chatHistoryKey = `aiChatHistory_${worksheetId}_${pageNumber}`;
-    
-    try {
-      localStorage.setItem(chatHistoryKey, JSON.stringify(messages));
-    } catch (error) {
-      // Suppress non-debug logs
-    }
+    saveChatHistory(worksheetId, pageNumber, toStoredMessages(messages)).catch(error => {
+      console.warn('Failed to save chat history:', error);
+    });
   }, [messages, worksheetId, pageNumber]);
 
   // Scroll to bottom when new messages are added - changed from "smooth" to "instant"
@@ -138,23 +243,20 @@ const AIChatPage: React.FC = () => {
       return;
     }
     
-    // Create a unique key for this worksheet page image
-    const imageKey = `worksheetPageImage_${worksheetId}_${pageNumber}`;
-    
-    // Try to load cached image from sessionStorage first
-    try {
-      const cachedImage = sessionStorage.getItem(imageKey);
-      if (cachedImage) {
+    // Try to load the cached image first; if there is none, render the page below
+    let cancelled = false;
+    setIsGeneratingImage(true);
+    getPageImage(worksheetId, pageNumber)
+      .catch(() => undefined)
+      .then(cachedImage => {
+        if (cancelled || !cachedImage) return;
         setPageImage(cachedImage);
         setIsGeneratingImage(false);
-        return;
-      }
-    } catch (error) {
-      // Suppress non-debug logs
-    }
+      });
     
-    // If no cached image found, generate a new one
-    setIsGeneratingImage(true);
+    return () => {
+      cancelled = true;
+    };
   }, [pdfUrl, pageNumber, worksheetId]);
 
   const onPageLoadSuccess = (page: any) => {
@@ -165,7 +267,7 @@ const AIChatPage: React.FC = () => {
     if (!context) return;
 
     // Set canvas size to match PDF page
-    const viewport = page.getViewport({ scale: 1.5 });
+    const viewport = page.getViewport({ scale: PAGE_IMAGE_SCALE });
     canvas.width = viewport.width;
     canvas.height = viewport.height;
 
@@ -181,26 +283,10 @@ const AIChatPage: React.FC = () => {
       setPageImage(imageDataUrl);
       setIsGeneratingImage(false);
       
-      // Cache the generated image in sessionStorage for future use
-      const imageKey = `worksheetPageImage_${worksheetId}_${pageNumber}`;
-      try {
-        sessionStorage.setItem(imageKey, imageDataUrl);
-      } catch (error) {
-        // If sessionStorage is full, try to clear old worksheet images
-        try {
-          // Clear old worksheet page images to make space
-          for (let i = 0; i < sessionStorage.length; i++) {
-            const key = sessionStorage.key(i);
-            if (key && key.startsWith('worksheetPageImage_') && key !== imageKey) {
-              sessionStorage.removeItem(key);
-            }
-          }
-          // Try to save again after cleanup
-          sessionStorage.setItem(imageKey, imageDataUrl);
-        } catch (cleanupError) {
-          // Suppress non-debug logs
-        }
-      }
+      // Cache the generated image for future use; the store evicts old images when space runs low
+      savePageImage(worksheetId, pageNumber, imageDataUrl).catch(error => {
+        console.warn('Failed to cache page image:', error);
+      });
     }).catch((error: any) => {
       setIsGeneratingImage(false);
       toast({
@@ -211,95 +297,193 @@ const AIChatPage: React.FC = () => {
     });
   };
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || isLoading || !pageImage) return;
+  // False when the AI provider still needs an API key the learner didn't give
+  const isProviderReady = useApiKeyPrompt();
 
-    const apiKey = localStorage.getItem('gemini-api-key');
-    if (!apiKey) {
-      toast({
-        title: t('aiChat.apiKeyMissing'),
-        description: t('aiChat.apiKeyMissingDesc'),
-        variant: "destructive"
-      });
-      return;
+  // What to tell the learner when a reply fails; each can be retried from the message
+  const getReplyError = (error: unknown): string => {
+    // The proxy may have fallen back to a provider that needs the learner's key; retrying asks for it
+    if (getLlmProvider().needsApiKey()) return t('aiChat.apiKeyMissingDesc');
+    if (error instanceof LlmRequestError && error.status === 429) return t('aiChat.rateLimited');
+    if (error instanceof TypeError || (error instanceof LlmRequestError && error.status === 503)) {
+      return t('aiChat.connectionError');
     }
+    return error instanceof Error ? error.message : String(error);
+  };
 
-    const userMessage = inputMessage.trim();
-    setInputMessage("");
-    setIsLoading(true);
+  /**
+   * Streams the reply to the last (user) message of `history` into a new assistant message
+   */
+  const streamReply = async (history: ChatMessage[]) => {
+    const controller = new AbortController();
+    replyControllerRef.current = controller;
+    // False once the page has changed, so a late chunk can't land in another page's chat
+    const isCurrentReply = () => replyControllerRef.current === controller;
+    const updateReply = (update: Partial<ChatMessage>) => {
+      if (!isCurrentReply()) return;
+      setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], ...update }]);
+    };
 
-    // Add user message to chat
-    const newMessages: ChatMessage[] = [...messages, { role: 'user', content: userMessage }];
-    setMessages(newMessages);
+    setIsLoading(true);
+    setMessages([...history, { role: 'assistant', content: '', status: 'streaming' }]);
 
+    let reply = '';
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+      const provider = getLlmProvider();
+      const conversation = toStoredMessages(history);
+
+      // Messages that no longer fit the budget are folded into the page's summary; if that
+      // fails, they are just left out
+      const savedSummary = await getChatSummary(worksheetId, pageNumber).catch(() => undefined);
+      let summary = isSummaryCurrent(savedSummary, conversation) ? savedSummary : undefined;
+      const summarizedCount = summary?.summarizedCount || 0;
+      const windowStart = Math.max(getHistoryWindowStart(conversation, summary?.summary), summarizedCount);
+      if (windowStart > summarizedCount) {
+        try {
+          const summaryText = await summarizeConversation(
+            provider,
+            summary?.summary,
+            conversation.slice(summarizedCount, windowStart),
+            { signal: controller.signal, worksheetId, page: Number(pageNumber) }
+          );
+          summary = {
+            summary: summaryText,
+            summarizedCount: windowStart,
+            lastSummarizedContent: conversation[windowStart - 1].content
+          };
+          saveChatSummary(worksheetId, pageNumber, summary).catch(error => {
+            console.warn('Failed to save chat summary:', error);
+          });
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+          console.warn('Failed to summarise earlier messages; sending recent ones only:', error);
+        }
+      }
 
-      // Prepare the conversation history for context
-      const conversationHistory = newMessages
-        .filter(msg => msg.role === 'user')
-        .map(msg => `User: ${msg.content}`)
-        .join('\n');
+      // The page image goes with the current question, so the model always sees the page,
+      // followed by the part of it the chat was opened from and the learner's latest photo of
+      // their work, which stays in view for follow-up questions until the chat is left
+      const focusImage = chatFocus
+        ? await cropImageDataUrl(pageImage, (width, height) => getFocusImageRect(chatFocus, width, height)).catch(error => {
+          console.warn('Failed to crop the focused part of the page:', error);
+          return null;
+        })
+        : null;
+      const attemptPhoto = [...history].reverse().find(message => message.role === 'user' && message.photo)?.photo;
+      const llmMessages = toLlmMessages(conversation.slice(windowStart));
+      const currentQuestion = llmMessages[llmMessages.length - 1];
+      for (const image of [pageImage, focusImage, attemptPhoto]) {
+        if (image) currentQuestion.parts.push(toImagePart(image));
+      }
 
-      // Create the prompt with enhanced instructions for distinguishing question types
-      const prompt = `Act as a tutor. You must distinguish between two types of student questions:
+      // The proxy regenerates replies that give an answer away, and withholds them if it can't
+      const { withheld } = await provider.sendMessage({
+        system: buildSystemInstruction({
+          summary: summary?.summary,
+          focus: chatFocus,
+          hasFocusImage: !!focusImage,
+          hasAttemptPhoto: !!attemptPhoto
+        }),
+        messages: llmMessages,
+        signal: controller.signal,
+        // The proxy builds the same instruction itself from the worksheet
+        context: {
+          task: 'reply',
+          worksheetId,
+          page: Number(pageNumber),
+          regionId: activeRegion?.id,
+          guidanceTitle: activeRegion ? undefined : activeGuidanceItem?.title,
+          stepIndex: chatFocus ? currentStepIndex : undefined,
+          hasFocusImage: !!focusImage,
+          hasAttemptPhoto: !!attemptPhoto,
+          summary: summary?.summary
+        }
+      }, text => {
+        reply += text;
+        updateReply({ content: reply });
+      }, () => {
+        reply = '';
+        updateReply({ content: '' });
+      });
+      if (withheld) reply = t('aiChat.answerWithheld');
 
-1. WORKSHEET QUESTIONS: Questions asking for direct answers to specific worksheet problems, exercises, or tasks shown in the image.
-   - For these questions: NEVER give the direct answer. Instead, provide hints, guide the student's thinking process, ask leading questions, or explain the underlying concepts that will help them solve it themselves.
-   - Examples: "What's the answer to question 3?", "Fill in the blank for me", "What should I write here?", "What's the correct word?"
+      updateReply({ content: reply, status: controller.signal.aborted ? 'stopped' : undefined });
+      if (readAloudRef.current && isCurrentReply() && !controller.signal.aborted) {
+        playReadAloud({ key: getReplyKey(history.length), text: toSpokenText(reply) });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateReply({ content: reply, status: 'stopped' });
+      } else {
+        console.warn('AI reply failed:', error);
+        updateReply({ content: reply, status: 'error', error: getReplyError(error) });
+      }
+    } finally {
+      if (isCurrentReply()) {
+        replyControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
 
-2. CONCEPTUAL QUESTIONS: Questions asking for understanding of general concepts, explanations, or clarification that are NOT asking for specific worksheet answers.
-   - For these questions: Provide clear, direct explanations and help the student understand the concept fully.
-   - Examples: "What is an adjective?", "How do I identify weather patterns?", "Can you explain what this concept means?", "Why does this work this way?"
+  const handleSendMessage = async () => {
+    if ((!inputMessage.trim() && !pendingPhoto) || isLoading || !pageImage) return;
 
-IMPORTANT: Always respond in the same language as the worksheet content and the user's question.
+    if (!isProviderReady()) return;
 
-Previous conversation:
-${conversationHistory}
+    // A photo sent on its own asks for feedback on it
+    const userMessage = inputMessage.trim() || t('aiChat.photo.defaultQuestion');
+    const photo = pendingPhoto;
+    setInputMessage("");
+    setPendingPhoto(null);
+    await streamReply([...messages, { role: 'user', content: userMessage, ...(photo ? { photo } : {}) }]);
+  };
 
-Current question: ${userMessage}
+  // Reads a reply aloud, or stops it if it's being read
+  const handleReadAloud = (index: number) => {
+    if (readAloudStep?.key === getReplyKey(index) && isReadingAloud) {
+      stopReadAloud();
+    } else {
+      playReadAloud({ key: getReplyKey(index), text: toSpokenText(messages[index].content) });
+    }
+  };
 
-Analyze the student's question carefully. If they're asking for a specific worksheet answer, guide them without giving the answer. If they're asking to understand a concept, explain it clearly and directly. Be encouraging and educational in both cases.`;
+  const handleToggleReadAloud = () => {
+    const nextReadAloud = !readAloud;
+    setReadAloud(nextReadAloud);
+    if (!nextReadAloud) stopReadAloud();
+    setPreference('aiChatReadAloud', nextReadAloud).catch(error => {
+      console.warn('Failed to save read-aloud preference:', error);
+    });
+  };
 
-      // Convert base64 image to the format expected by Gemini
-      const base64Data = pageImage.split(',')[1]; // Remove data:image/png;base64, prefix
-      
-      const imagePart = {
-        inlineData: {
-          data: base64Data,
-          mimeType: "image/png"
-        }
-      };
+  // Learners are heard in the language the tutor has been replying in (that of the worksheet),
+  // or that of the part of the page they asked about
+  const handleStartListening = (e: React.PointerEvent) => {
+    e.preventDefault();
+    if (isLoading) return;
+    stopReadAloud();
+    const lastReply = [...messages].reverse().find(message => message.role === 'assistant' && message.content);
+    const sample = chatFocus?.title || lastReply?.content || '';
+    speechInput.start(getRecognitionLocale(getSpeechLanguage(sample, i18n.language)));
+  };
 
-      const result = await model.generateContent([prompt, imagePart]);
-      const response = await result.response;
-      const aiResponse = response.text();
+  // While listening, what has been heard so far is shown after what was already typed
+  const inputDisplay = speechInput.isListening && speechInput.transcript
+    ? [inputMessage.trim(), speechInput.transcript].filter(Boolean).join(' ')
+    : inputMessage;
 
-      // Add AI response to chat
-      setMessages(prev => [...prev, { role: 'assistant', content: aiResponse }]);
+  const handleStopReply = () => {
+    replyControllerRef.current?.abort();
+  };
 
-      // DEBUG: Check session state after AI response
-      const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
-      const currentSessionState = sessionStorage.getItem(sessionKey);
-      console.log('🔍 [DEBUG] AIChatPage - Session state AFTER AI response:', {
-        sessionKey,
-        currentSessionState,
-        parsedState: currentSessionState ? JSON.parse(currentSessionState) : null
-      });
+  // Asks again for the reply at `index`, dropping it and everything after it
+  const handleRegenerateReply = async (index: number) => {
+    if (isLoading || !pageImage) return;
 
-    } catch (error) {
-      toast({
-        title: t('aiChat.aiError'),
-        description: t('aiChat.aiErrorDesc'),
-        variant: "destructive"
-      });
-      
-      // Remove the user message if AI failed to respond
-      setMessages(messages);
-    } finally {
-      setIsLoading(false);
-    }
+    if (!isProviderReady()) return;
+
+    await streamReply(messages.slice(0, index));
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -310,15 +494,6 @@ Analyze the student's question carefully. If they're asking for a specific works
   };
 
   const goBack = () => {
-    // DEBUG: Check session state before navigating back to worksheet
-    const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
-    const currentSessionState = sessionStorage.getItem(sessionKey);
-    console.log('🔍 [DEBUG] AIChatPage - Session state BEFORE navigating back to worksheet:', {
-      sessionKey,
-      currentSessionState,
-      parsedState: currentSessionState ? JSON.parse(currentSessionState) : null
-    });
-    
     // Navigate back to worksheet without any state - this will show the main PDF view
     navigate(`/worksheet/${worksheetId}/${pageNumber}`);
   };
@@ -375,11 +550,27 @@ Analyze the student's question carefully. If they're asking for a specific works
       <div className="fixed top-0 left-0 right-0 z-60 bg-white border-b border-gray-200 p-4 flex items-center gap-4">
         <div className="flex-1 text-center">
           <h1 className="text-xl font-semibold" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>{t('aiChat.title')}</h1>
+          {chatFocus && (
+            <p className="text-sm text-gray-500 truncate" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
+              {t('aiChat.askingAbout', { title: chatFocus.title })}
+            </p>
+          )}
         </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleToggleReadAloud}
+          className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-600"
+          aria-label={readAloud ? t('aiChat.readAloudOff') : t('aiChat.readAloudOn')}
+          aria-pressed={readAloud}
+          title={readAloud ? t('aiChat.readAloudOff') : t('aiChat.readAloudOn')}
+        >
+          {readAloud ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+        </Button>
       </div>
 
       {/* Main Chat Container */}
-      <div className="flex-1 flex flex-col pt-20 pb-20 max-w-4xl mx-auto w-full">
+      <div className={`flex-1 flex flex-col ${chatFocus ? 'pt-24' : 'pt-20'} ${pendingPhoto ? 'pb-40' : 'pb-20'} max-w-4xl mx-auto w-full`}>
         {/* Messages Container */}
         <div className="flex-1 overflow-hidden">
           <ScrollArea className="h-full">
@@ -395,6 +586,13 @@ Analyze the student's question carefully. If they're asking for a specific works
                       className="max-w-[80%] bg-gradient-orange-magenta text-white rounded-2xl px-4 py-3 shadow-sm"
                       dir={getTextDirection(message.content)}
                     >
+                      {message.photo && (
+                        <img
+                          src={message.photo}
+                          alt={t('aiChat.photo.alt')}
+                          className="mb-2 max-h-64 rounded-lg object-contain"
+                        />
+                      )}
                       <div className="whitespace-pre-wrap break-words">
                         {message.content}
                       </div>
@@ -402,55 +600,111 @@ Analyze the student's question carefully. If they're asking for a specific works
                   ) : (
                     // AI message - full width, no bubble
                     <div className="w-full">
-                      <div 
-                        className="text-gray-800 leading-relaxed"
-                        dir={getTextDirection(message.content)}
-                      >
-                        <ReactMarkdown 
-                          remarkPlugins={[remarkGfm]} 
-                          className="prose prose-gray max-w-none prose-headings:text-gray-900 prose-p:text-gray-800 prose-strong:text-gray-900 prose-em:text-gray-800 prose-code:bg-gray-100 prose-code:text-gray-900 prose-pre:bg-gray-100 prose-pre:text-gray-900 prose-li:text-gray-800 prose-a:text-blue-600 prose-blockquote:text-gray-700 prose-blockquote:border-gray-300"
-                          components={{
-                            p: ({ children }) => <p className="mb-4 last:mb-0">{children}</p>,
-                            ul: ({ children }) => <ul className="mb-4 last:mb-0 space-y-1">{children}</ul>,
-                            ol: ({ children }) => <ol className="mb-4 last:mb-0 space-y-1">{children}</ol>,
-                            li: ({ children }) => <li className="text-gray-800">{children}</li>,
-                            h1: ({ children }) => <h1 className="text-xl font-semibold mb-3 text-gray-900">{children}</h1>,
-                            h2: ({ children }) => <h2 className="text-lg font-semibold mb-2 text-gray-900">{children}</h2>,
-                            h3: ({ children }) => <h3 className="text-base font-semibold mb-2 text-gray-900">{children}</h3>,
-                            code: ({ children, className }) => {
-                              const isInline = !className;
-                              return isInline ? (
-                                <code className="bg-gray-100 text-gray-900 px-1 py-0.5 rounded text-sm">{children}</code>
-                              ) : (
-                                <code className={className}>{children}</code>
-                              );
-                            },
-                            pre: ({ children }) => (
-                              <pre className="bg-gray-100 text-gray-900 p-3 rounded-md overflow-x-auto mb-4">{children}</pre>
-                            ),
-                            blockquote: ({ children }) => (
-                              <blockquote className="border-l-4 border-gray-300 pl-4 italic text-gray-700 mb-4">{children}</blockquote>
-                            )
-                          }}
+                      {message.status === 'streaming' && !message.content && (
+                        <div className="inline-flex items-center gap-2 text-gray-600 bg-gray-100 rounded-2xl px-4 py-3">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          <span>{t('aiChat.thinking')}</span>
+                        </div>
+                      )}
+                      {message.content && (
+                        <div 
+                          className="text-gray-800 leading-relaxed"
+                          dir={getTextDirection(message.content)}
+                        >
+                          <ReactMarkdown 
+                            remarkPlugins={[remarkGfm]} 
+                            className="prose prose-gray max-w-none prose-headings:text-gray-900 prose-p:text-gray-800 prose-strong:text-gray-900 prose-em:text-gray-800 prose-code:bg-gray-100 prose-code:text-gray-900 prose-pre:bg-gray-100 prose-pre:text-gray-900 prose-li:text-gray-800 prose-a:text-blue-600 prose-blockquote:text-gray-700 prose-blockquote:border-gray-300"
+                            components={{
+                              p: ({ children }) => <p className="mb-4 last:mb-0">{children}</p>,
+                              ul: ({ children }) => <ul className="mb-4 last:mb-0 space-y-1">{children}</ul>,
+                              ol: ({ children }) => <ol className="mb-4 last:mb-0 space-y-1">{children}</ol>,
+                              li: ({ children }) => <li className="text-gray-800">{children}</li>,
+                              h1: ({ children }) => <h1 className="text-xl font-semibold mb-3 text-gray-900">{children}</h1>,
+                              h2: ({ children }) => <h2 className="text-lg font-semibold mb-2 text-gray-900">{children}</h2>,
+                              h3: ({ children }) => <h3 className="text-base font-semibold mb-2 text-gray-900">{children}</h3>,
+                              code: ({ children, className }) => {
+                                const isInline = !className;
+                                return isInline ? (
+                                  <code className="bg-gray-100 text-gray-900 px-1 py-0.5 rounded text-sm">{children}</code>
+                                ) : (
+                                  <code className={className}>{children}</code>
+                                );
+                              },
+                              pre: ({ children }) => (
+                                <pre className="bg-gray-100 text-gray-900 p-3 rounded-md overflow-x-auto mb-4">{children}</pre>
+                              ),
+                              blockquote: ({ children }) => (
+                                <blockquote className="border-l-4 border-gray-300 pl-4 italic text-gray-700 mb-4">{children}</blockquote>
+                              )
+                            }}
+                          >
+                            {message.content}
+                          </ReactMarkdown>
+                        </div>
+                      )}
+                      
+                      {message.status === 'stopped' && (
+                        <p className="text-sm text-gray-500 mt-2" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
+                          {t('aiChat.stopped')}
+                        </p>
+                      )}
+                      
+                      {message.status === 'error' && (
+                        <div
+                          className="flex items-start gap-2 mt-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700"
+                          dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}
                         >
-                          {message.content}
-                        </ReactMarkdown>
+                          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                          <div>
+                            <p>{t('aiChat.aiErrorDesc')}</p>
+                            {message.error && <p className="text-xs text-red-500 mt-1 break-words">{message.error}</p>}
+                          </div>
+                        </div>
+                      )}
+                      
+                      <div className="flex flex-wrap items-center gap-1 mt-1">
+                        {message.status !== 'streaming' && message.content && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleReadAloud(index)}
+                            className="h-8 px-2 text-gray-500 hover:text-gray-800"
+                            dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}
+                          >
+                            {readAloudStep?.key === getReplyKey(index) && isReadingAloud ? (
+                              <>
+                                <Square className="h-4 w-4 fill-current" />
+                                {t('aiChat.stopReading')}
+                              </>
+                            ) : (
+                              <>
+                                <Volume2 className="h-4 w-4" />
+                                {t('aiChat.readAloud')}
+                              </>
+                            )}
+                          </Button>
+                        )}
+                        
+                        {/* Replies to a question can be asked for again; the welcome message can't */}
+                        {message.status !== 'streaming' && index > 0 && messages[index - 1].role === 'user' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRegenerateReply(index)}
+                            disabled={isLoading || !pageImage}
+                            className="h-8 px-2 text-gray-500 hover:text-gray-800"
+                            dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            {message.status === 'error' ? t('aiChat.retry') : t('aiChat.regenerate')}
+                          </Button>
+                        )}
                       </div>
                     </div>
                   )}
                 </div>
               ))}
               
-              {/* Loading indicator */}
-              {isLoading && (
-                <div className="flex justify-start">
-                  <div className="flex items-center gap-2 text-gray-600 bg-gray-100 rounded-2xl px-4 py-3">
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    <span>{t('aiChat.thinking')}</span>
-                  </div>
-                </div>
-              )}
-              
               <div ref={messagesEndRef} />
             </div>
           </ScrollArea>
@@ -460,27 +714,89 @@ Analyze the student's question carefully. If they're asking for a specific works
       {/* Fixed Input Area */}
       <div className="fixed bottom-0 left-0 right-0 z-60 bg-white border-t border-gray-200 p-4">
         <div className="max-w-3xl mx-auto">
+          {pendingPhoto && (
+            <div className="relative inline-block mb-3">
+              <img
+                src={pendingPhoto}
+                alt={t('aiChat.photo.alt')}
+                className="h-16 rounded-md border border-gray-300 object-cover"
+              />
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => setPendingPhoto(null)}
+                className="absolute -top-2 -right-2 h-6 w-6 rounded-full shadow"
+                aria-label={t('aiChat.photo.remove')}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
           <div className="flex gap-3">
             <Input
-              value={inputMessage}
+              value={inputDisplay}
               onChange={(e) => setInputMessage(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder={t('aiChat.placeholder')}
+              placeholder={speechInput.isListening ? t('aiChat.listening') : t('aiChat.placeholder')}
               disabled={isLoading || isGeneratingImage}
+              readOnly={speechInput.isListening}
               className="flex-1 min-h-[44px] text-base border-gray-300 focus:border-orange-500 focus:ring-orange-500"
-              dir={getTextDirection(inputMessage)}
+              dir={getTextDirection(inputDisplay)}
             />
             <Button
-              onClick={handleSendMessage}
-              disabled={isLoading || !inputMessage.trim() || isGeneratingImage}
-              className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta min-w-[44px] h-[44px] px-3"
+              variant="outline"
+              onClick={() => setIsPhotoDialogOpen(true)}
+              disabled={isLoading || isGeneratingImage}
+              className="min-w-[44px] h-[44px] px-3 text-gray-600"
+              aria-label={t('aiChat.photo.attach')}
+              title={t('aiChat.photo.attach')}
             >
-              <Send className="h-4 w-4" />
+              <Camera className="h-4 w-4" />
             </Button>
+            {/* Hold to talk; what was said is added to the message box to check before sending */}
+            {speechInput.isSupported && (
+              <Button
+                variant="outline"
+                onPointerDown={handleStartListening}
+                onPointerUp={speechInput.stop}
+                onPointerLeave={speechInput.stop}
+                onPointerCancel={speechInput.stop}
+                onContextMenu={(e) => e.preventDefault()}
+                disabled={isLoading || isGeneratingImage}
+                className={`min-w-[44px] h-[44px] px-3 touch-none select-none ${speechInput.isListening ? 'border-orange-500 bg-orange-50 text-orange-600 animate-pulse' : 'text-gray-600'}`}
+                aria-label={t('aiChat.holdToTalk')}
+                title={t('aiChat.holdToTalk')}
+              >
+                <Mic className="h-4 w-4" />
+              </Button>
+            )}
+            {isLoading ? (
+              <Button
+                onClick={handleStopReply}
+                className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta min-w-[44px] h-[44px] px-3"
+                aria-label={t('aiChat.stop')}
+              >
+                <Square className="h-4 w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSendMessage}
+                disabled={(!inputMessage.trim() && !pendingPhoto) || isGeneratingImage}
+                className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta min-w-[44px] h-[44px] px-3"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
 
+      <PhotoCaptureDialog
+        isOpen={isPhotoDialogOpen}
+        onClose={() => setIsPhotoDialogOpen(false)}
+        onCapture={setPendingPhoto}
+      />
+
       {/* Hidden PDF rendering for image generation - only render if no cached image */}
       {!pageImage && (
         <div className="hidden">
@@ -0,0 +1,105 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { BookOpen, QrCode } from "lucide-react";
+import { getTextDirection } from "@/lib/textDirection";
+import { buildWorksheetPath } from "@/lib/worksheetLinks";
+import { getRecentWorksheetProgress, type RecentWorksheetEntry } from "@/lib/recentWorksheets";
+import { useRecentWorksheets } from "@/hooks/useRecentWorksheets";
+import ProgressSyncCard from "@/components/ProgressSyncCard";
+
+const HomePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { t, i18n } = useTranslation();
+  const { data: recentWorksheets, isLoading } = useRecentWorksheets();
+  const uiDirection = i18n.language === 'ar' ? 'rtl' : 'ltr';
+
+  const resumeWorksheet = (entry: RecentWorksheetEntry) => {
+    navigate(buildWorksheetPath({
+      worksheetId: entry.worksheetId,
+      page: entry.lastPage,
+      regionId: entry.lastActiveRegionId,
+      guidanceKey: entry.lastActiveGuidanceKey,
+      stepIndex: entry.lastStepIndex
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center p-4 pt-20">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gradient-clip" dir={uiDirection}>
+            {t('home.title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center text-gray-500" dir={uiDirection}>{t('home.loading')}</p>
+          ) : !recentWorksheets || recentWorksheets.length === 0 ? (
+            <div className="text-center" dir={uiDirection}>
+              <p className="text-gray-600 mb-4">{t('home.empty')}</p>
+              <Button
+                onClick={() => navigate("/")}
+                className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white"
+              >
+                <QrCode className="h-4 w-4" />
+                {t('home.scan')}
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {recentWorksheets.map((entry) => {
+                const progress = Math.round(getRecentWorksheetProgress(entry) * 100);
+                return (
+                  <button
+                    key={entry.worksheetId}
+                    type="button"
+                    onClick={() => resumeWorksheet(entry)}
+                    className="w-full text-start bg-white rounded-lg border border-gray-200 p-4 hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 shadow-sm"
+                    dir={uiDirection}
+                  >
+                    <div className="flex items-start gap-3">
+                      <BookOpen className="h-5 w-5 mt-1 text-orange-500 shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <h3
+                          className="font-semibold text-gray-800 truncate"
+                          dir={getTextDirection(entry.documentName)}
+                        >
+                          {entry.documentName}
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {t('home.lastPage', { page: entry.lastPage })}
+                          {entry.lastActiveLabel && (
+                            <span dir={getTextDirection(entry.lastActiveLabel)}> · {entry.lastActiveLabel}</span>
+                          )}
+                        </p>
+                        <div className="flex items-center gap-2 mt-2">
+                          <Progress value={progress} className="h-2 flex-1" />
+                          <span className="text-xs text-gray-500">{t('home.progress', { percent: progress })}</span>
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {formatDistanceToNow(entry.lastOpenedAt, {
+                            addSuffix: true,
+                            locale: i18n.language === 'ar' ? ar : enUS
+                          })}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <ProgressSyncCard />
+    </div>
+  );
+};
+
+export default HomePage;
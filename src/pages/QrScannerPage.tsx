@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import QrScanner from "react-qr-scanner";
@@ -6,47 +6,63 @@ import { Button } from "@/components/ui/button";
 import { toast } from "@/components/ui/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Languages } from "lucide-react";
+import { History, Languages } from "lucide-react";
+import { parseAndVerifyQrPayload } from "@/lib/qrPayload";
+import { buildWorksheetPath } from "@/lib/worksheetLinks";
+import { BACK_CAMERA_CONSTRAINTS } from "@/lib/camera";
+import { useCameraErrorHandler } from "@/hooks/useCameraErrorHandler";
 
 const QrScannerPage: React.FC = () => {
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
   const [scanning, setScanning] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const isProcessingRef = useRef(false);
+  const handleCameraError = useCameraErrorHandler();
 
   const changeLanguage = (lng: string) => {
     i18n.changeLanguage(lng);
   };
 
-  const handleScan = (data: { text: string } | null) => {
-    if (data && data.text) {
-      const qrData = data.text;
-      const match = qrData.match(/^([A-Za-z]+)(\d+)$/);
-      
-      if (match) {
-        const id = match[1];
-        const n = match[2];
+  const handleScan = async (data: { text: string } | null) => {
+    if (!data || !data.text || isProcessingRef.current) return;
+
+    // The scanner keeps firing while the payload is verified, so ignore scans until we're done
+    isProcessingRef.current = true;
+    try {
+      const result = await parseAndVerifyQrPayload(data.text);
+
+      if (result.ok) {
+        const { worksheetId, page, regionId, guidanceTitle, locale } = result.payload;
+        if (locale && locale !== i18n.language) {
+          i18n.changeLanguage(locale);
+        }
         setScanning(false);
-        navigate(`/worksheet/${id}/${n}`);
+        navigate(buildWorksheetPath({ worksheetId, page, regionId, guidanceTitle }));
       } else {
         setError(t('qrScanner.invalidFormat'));
         toast({
           title: t('qrScanner.invalidFormat'),
-          description: t('qrScanner.invalidFormatDesc'),
+          description: t(`qrScanner.errors.${result.error}`, { defaultValue: t('qrScanner.invalidFormatDesc') }),
           variant: "destructive"
         });
       }
+    } catch (verifyError) {
+      // The code couldn't be verified (e.g. no connection), so it isn't opened
+      console.error('QR code verification failed:', verifyError);
+      setError(t('qrScanner.invalidFormat'));
+      toast({
+        title: t('qrScanner.invalidFormat'),
+        description: t('qrScanner.errors.verificationUnavailable'),
+        variant: "destructive"
+      });
+    } finally {
+      isProcessingRef.current = false;
     }
   };
 
   const handleError = (err: Error) => {
-    console.error(err);
-    setError(t('qrScanner.errorAccessing', { message: err.message }));
-    toast({
-      title: t('qrScanner.cameraError'),
-      description: t('qrScanner.cameraErrorDesc'),
-      variant: "destructive"
-    });
+    setError(handleCameraError(err));
   };
 
   const resetScanner = () => {
@@ -57,7 +73,7 @@ const QrScannerPage: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-4">
       {/* Language Selection Button */}
-      <div className="fixed top-4 left-4 z-50">
+      <div className="fixed top-4 left-4 z-50 flex gap-2">
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="outline" size="icon" className="bg-white shadow-md">
@@ -73,6 +89,15 @@ const QrScannerPage: React.FC = () => {
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <Button
+          variant="outline"
+          size="icon"
+          className="bg-white shadow-md"
+          onClick={() => navigate("/home")}
+          aria-label={t('qrScanner.recentWorksheets')}
+        >
+          <History className="h-4 w-4" />
+        </Button>
       </div>
 
       <Card className="w-full max-w-md">
@@ -97,10 +122,7 @@ const QrScannerPage: React.FC = () => {
                   onError={handleError}
                   onScan={handleScan}
                   style={{ width: "100%", height: "100%" }}
-                  constraints={{
-                    audio: false,
-                    video: { facingMode: "environment" }
-                  }}
+                  constraints={BACK_CAMERA_CONSTRAINTS}
                 />
               )}
             </div>
@@ -1,41 +1,50 @@
-import React, { useState, useEffect, useCallback } from "react";
-import { useParams, useNavigate, useLocation } from "react-router-dom";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { useParams, useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import WorksheetViewer from "@/components/WorksheetViewer";
 import AutoModeViewer from "@/components/AutoModeViewer";
 import AIChatButton from "@/components/AIChatButton";
+import WorksheetValidationReport from "@/components/WorksheetValidationReport";
+import PageModeSwitchButton from "@/components/PageModeSwitchButton";
 import { Button } from "@/components/ui/button";
 import { useWorksheetData } from "@/hooks/useWorksheetData";
-import type { RegionData, AutoModeGuidanceItem } from "@/types/worksheet";
-import { isAutoModeMetadata } from "@/types/worksheet";
+import { useRecordRecentWorksheet } from "@/hooks/useRecentWorksheets";
+import type { RegionData, AutoModeGuidanceItem, PageMode } from "@/types/worksheet";
+import { buildWorksheetPath, parseStepParam, findGuidanceItemByKey, getGuidanceItemKey } from "@/lib/worksheetLinks";
+import { getRegionSteps, getGuidanceSteps } from "@/lib/worksheetSteps";
+import { getPageRegions, getPageGuidance, getPageMode, canSwitchPageMode } from "@/lib/worksheetPages";
+import { getPageProgress, savePageProgress } from "@/lib/progressStore";
+import { waitForInitialProgressSync } from "@/lib/progressSync";
+import { WorksheetNotFoundError } from "@/lib/worksheetRepository";
+import { WorksheetValidationError } from "@/lib/worksheetSchema";
+import type { PageProgress, StoredStepState } from "@/types/progress";
 
-interface StoredRegionData {
-  currentStepIndex: number;
-}
-
-interface StoredGuidanceData {
-  currentStepIndex: number;
-}
-
-interface SessionPageData {
-  lastActiveRegionId: string | null;
-  regions: Record<string, StoredRegionData>;
-  lastActiveGuidanceKey: string | null;
-  guidance: Record<string, StoredGuidanceData>;
-}
+const EMPTY_PAGE_PROGRESS: PageProgress = {
+  lastActiveRegionId: null,
+  regions: {},
+  lastActiveGuidanceKey: null,
+  guidance: {}
+};
 
 const WorksheetPage: React.FC = () => {
   const { t } = useTranslation();
-  const { id, n } = useParams<{ id: string; n: string }>();
+  const { id, n, regionId: urlRegionId, guidanceKey: urlGuidanceKey } = useParams<{
+    id: string;
+    n: string;
+    regionId?: string;
+    guidanceKey?: string;
+  }>();
+  const [searchParams] = useSearchParams();
+  const urlStepIndex = parseStepParam(searchParams.get('step'));
   const navigate = useNavigate();
   const location = useLocation();
   
   const [isTextModeActive, setIsTextModeActive] = useState(false);
   const [currentActiveRegion, setCurrentActiveRegion] = useState<RegionData | null>(null);
   const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
-  const [allRegionsState, setAllRegionsState] = useState<Record<string, StoredRegionData>>({});
+  const [allRegionsState, setAllRegionsState] = useState<Record<string, StoredStepState>>({});
   const [currentActiveGuidanceItem, setCurrentActiveGuidanceItem] = useState<AutoModeGuidanceItem | null>(null);
-  const [allGuidanceState, setAllGuidanceState] = useState<Record<string, StoredGuidanceData>>({});
+  const [allGuidanceState, setAllGuidanceState] = useState<Record<string, StoredStepState>>({});
   const [initialActiveRegion, setInitialActiveRegion] = useState<RegionData | null>(null);
   const [initialCurrentStepIndex, setInitialCurrentStepIndex] = useState<number>(0);
   const [initialActiveGuidanceItem, setInitialActiveGuidanceItem] = useState<AutoModeGuidanceItem | null>(null);
@@ -47,9 +56,29 @@ const WorksheetPage: React.FC = () => {
     initialActiveGuidanceItem?: AutoModeGuidanceItem;
   } | null;
   
+  // Path last written by the URL sync below, so the deep link isn't cleared before it is restored
+  const lastSyncedPathRef = useRef<string | null>(null);
+  // Progress for the current page as last loaded or saved, and the page it belongs to
+  const pageProgressRef = useRef<PageProgress>(EMPTY_PAGE_PROGRESS);
+  const loadedPageKeyRef = useRef<string | null>(null);
+  // Viewer chosen for the current page; hybrid pages can switch between the two
+  const [pageViewerMode, setPageViewerMode] = useState<{ pageKey: string; mode: PageMode } | null>(null);
+  // Progress as loaded when the page opened, used to pick which region/guidance item to reopen
+  const [loadedPageProgress, setLoadedPageProgress] = useState<{ pageKey: string; progress: PageProgress } | null>(null);
+  
   // Fetch worksheet data once at the page level
   const { data: worksheetData, isLoading, error } = useWorksheetData(id || '');
   
+  // Remember this worksheet and the learner's position for the home screen
+  useRecordRecentWorksheet(
+    id,
+    parseInt(n || '', 10),
+    worksheetData?.meta,
+    currentActiveRegion,
+    currentActiveGuidanceItem,
+    currentStepIndex
+  );
+  
   // Enable zooming for worksheet page
   useEffect(() => {
     const viewportMeta = document.querySelector('meta[name="viewport"]') as HTMLMetaElement;
@@ -85,101 +114,184 @@ const WorksheetPage: React.FC = () => {
     }
   }, [isTextModeActive]);
   
-  // Load session state when worksheet or page changes
+  // Load stored progress when worksheet or page changes
   useEffect(() => {
     if (!id || !n) return;
     
-    const sessionKey = `worksheet_page_state_${id}_${n}`;
-    console.log('🔍 [DEBUG] Loading session state with key:', sessionKey);
+    const pageKey = `${id}_${n}`;
+    let cancelled = false;
+    setLoadedPageProgress(null);
+    // Targets restored on the previous page must not be matched against this one
+    setInitialActiveRegion(null);
+    setInitialActiveGuidanceItem(null);
+    setInitialCurrentStepIndex(0);
     
-    try {
-      const storedState = sessionStorage.getItem(sessionKey);
-      console.log('🔍 [DEBUG] Raw stored state from sessionStorage:', storedState);
-      
-      if (storedState) {
-        const parsedState = JSON.parse(storedState) as SessionPageData;
-        console.log('🔍 [DEBUG] Parsed session state:', parsedState);
-        
-        // Set all regions state
-        setAllRegionsState(parsedState.regions || {});
-        setAllGuidanceState(parsedState.guidance || {});
-        console.log('🔍 [DEBUG] Set allRegionsState to:', parsedState.regions || {});
-        console.log('🔍 [DEBUG] Set allGuidanceState to:', parsedState.guidance || {});
+    // Give progress made on another device a moment to arrive before restoring
+    waitForInitialProgressSync()
+      .then(() => getPageProgress(id, n))
+      .catch(error => {
+        console.warn('Failed to load page progress:', error);
+        return undefined;
+      })
+      .then(storedProgress => {
+        if (cancelled) return;
+        console.log('🔍 [DEBUG] Loaded page progress for', pageKey, storedProgress);
         
-        // If we have location state (from AI chat), prioritize that
-        if (locationState?.initialActiveRegion) {
-          console.log('🔍 [DEBUG] Using location state - initialActiveRegion:', locationState.initialActiveRegion);
-          setInitialActiveRegion(locationState.initialActiveRegion);
-          setInitialCurrentStepIndex(locationState.initialCurrentStepIndex || 0);
-        } else if (locationState?.initialActiveGuidanceItem) {
-          console.log('🔍 [DEBUG] Using location state - initialActiveGuidanceItem:', locationState.initialActiveGuidanceItem);
-          setInitialActiveGuidanceItem(locationState.initialActiveGuidanceItem);
-          setInitialCurrentStepIndex(locationState.initialCurrentStepIndex || 0);
-        } else if (parsedState.lastActiveRegionId && worksheetData?.meta?.regions) {
-          // Find the last active region from the stored data
-          const lastActiveRegion = worksheetData.meta.regions.find(
-            region => region.id === parsedState.lastActiveRegionId
-          );
-          if (lastActiveRegion) {
-            const regionState = parsedState.regions[parsedState.lastActiveRegionId];
-            console.log('🔍 [DEBUG] Found last active region:', lastActiveRegion.id, 'with state:', regionState);
-            setInitialActiveRegion(lastActiveRegion);
-            setInitialCurrentStepIndex(regionState?.currentStepIndex || 0);
-          }
-        } else if (parsedState.lastActiveGuidanceKey && isAutoModeMetadata(worksheetData.meta)) {
-          // Find the last active guidance item from the stored data
-          const currentPageData = worksheetData.meta.data.find(page => page.page_number === parseInt(n!));
-          if (currentPageData) {
-            const [, guidanceTitle] = parsedState.lastActiveGuidanceKey.split('_', 2);
-            const lastActiveGuidanceItem = currentPageData.guidance.find(
-              item => item.title === guidanceTitle
-            );
-            if (lastActiveGuidanceItem) {
-              const guidanceState = parsedState.guidance[parsedState.lastActiveGuidanceKey];
-              console.log('🔍 [DEBUG] Found last active guidance item:', lastActiveGuidanceItem.title, 'with state:', guidanceState);
-              setInitialActiveGuidanceItem(lastActiveGuidanceItem);
-              setInitialCurrentStepIndex(guidanceState?.currentStepIndex || 0);
-            }
-          }
-        }
-      } else {
-        console.log('🔍 [DEBUG] No session state found for key:', sessionKey);
-        setAllRegionsState({});
-        setAllGuidanceState({});
-        
-        // Use location state if available
-        if (locationState?.initialActiveRegion) {
-          console.log('🔍 [DEBUG] Using location state (no session) - initialActiveRegion:', locationState.initialActiveRegion);
-          setInitialActiveRegion(locationState.initialActiveRegion);
-          setInitialCurrentStepIndex(locationState.initialCurrentStepIndex || 0);
-        } else if (locationState?.initialActiveGuidanceItem) {
-          console.log('🔍 [DEBUG] Using location state (no session) - initialActiveGuidanceItem:', locationState.initialActiveGuidanceItem);
-          setInitialActiveGuidanceItem(locationState.initialActiveGuidanceItem);
-          setInitialCurrentStepIndex(locationState.initialCurrentStepIndex || 0);
-        }
+        const progress: PageProgress = {
+          lastActiveRegionId: storedProgress?.lastActiveRegionId || null,
+          regions: storedProgress?.regions || {},
+          lastActiveGuidanceKey: storedProgress?.lastActiveGuidanceKey || null,
+          guidance: storedProgress?.guidance || {}
+        };
+        pageProgressRef.current = progress;
+        loadedPageKeyRef.current = pageKey;
+        setAllRegionsState(progress.regions);
+        setAllGuidanceState(progress.guidance);
+        setLoadedPageProgress({ pageKey, progress });
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [id, n]);
+  
+  // Pick the region/guidance item to open: the URL deep link, then navigation state, then the last one stored
+  useEffect(() => {
+    if (!id || !n || !worksheetData || loadedPageProgress?.pageKey !== `${id}_${n}`) return;
+    
+    const storedProgress = loadedPageProgress.progress;
+    
+    // A deep link in the URL takes priority over navigation state, so shared links and reloads land in the same place
+    let locationRegion = locationState?.initialActiveRegion;
+    let locationGuidanceItem = locationState?.initialActiveGuidanceItem;
+    let locationStepIndex = locationState?.initialCurrentStepIndex || 0;
+    const pageNumber = parseInt(n, 10);
+    const currentPageData = getPageGuidance(worksheetData.meta, pageNumber);
+    if (urlRegionId) {
+      const urlRegion = getPageRegions(worksheetData.meta, pageNumber).find(region => region.id === urlRegionId);
+      if (urlRegion) {
+        locationRegion = urlRegion;
+        locationGuidanceItem = undefined;
+        locationStepIndex = Math.min(urlStepIndex, Math.max(getRegionSteps(urlRegion).length - 1, 0));
       }
-    } catch (error) {
-      console.warn('🔍 [DEBUG] Failed to load session state:', error);
-      setAllRegionsState({});
-      setAllGuidanceState({});
-      
-      // Use location state if available
-      if (locationState?.initialActiveRegion) {
-        console.log('🔍 [DEBUG] Using location state (error fallback) - initialActiveRegion:', locationState.initialActiveRegion);
-        setInitialActiveRegion(locationState.initialActiveRegion);
-        setInitialCurrentStepIndex(locationState.initialCurrentStepIndex || 0);
-      } else if (locationState?.initialActiveGuidanceItem) {
-        console.log('🔍 [DEBUG] Using location state (error fallback) - initialActiveGuidanceItem:', locationState.initialActiveGuidanceItem);
-        setInitialActiveGuidanceItem(locationState.initialActiveGuidanceItem);
-        setInitialCurrentStepIndex(locationState.initialCurrentStepIndex || 0);
+    } else if (urlGuidanceKey) {
+      const urlGuidanceItem = findGuidanceItemByKey(currentPageData, urlGuidanceKey);
+      if (urlGuidanceItem) {
+        locationRegion = undefined;
+        locationGuidanceItem = urlGuidanceItem;
+        locationStepIndex = Math.min(urlStepIndex, Math.max(getGuidanceSteps(urlGuidanceItem).length - 1, 0));
       }
     }
-  }, [id, n, locationState, worksheetData]);
+    
+    // The viewer follows an explicit target (deep link or navigation state); otherwise it is chosen once per page
+    const pageKey = `${id}_${n}`;
+    const chooseViewerMode = (mode: PageMode, isExplicitTarget: boolean) => {
+      setPageViewerMode(current => current?.pageKey === pageKey && !isExplicitTarget ? current : { pageKey, mode });
+    };
+    
+    if (locationRegion) {
+      console.log('🔍 [DEBUG] Using location state - initialActiveRegion:', locationRegion);
+      setInitialActiveRegion(locationRegion);
+      setInitialCurrentStepIndex(locationStepIndex);
+      chooseViewerMode('regions', true);
+    } else if (locationGuidanceItem) {
+      console.log('🔍 [DEBUG] Using location state - initialActiveGuidanceItem:', locationGuidanceItem);
+      setInitialActiveGuidanceItem(locationGuidanceItem);
+      setInitialCurrentStepIndex(locationStepIndex);
+      chooseViewerMode('auto', true);
+    } else if (storedProgress.lastActiveRegionId) {
+      const lastActiveRegion = getPageRegions(worksheetData.meta, pageNumber).find(
+        region => region.id === storedProgress.lastActiveRegionId
+      );
+      if (lastActiveRegion) {
+        const regionState = storedProgress.regions[storedProgress.lastActiveRegionId];
+        console.log('🔍 [DEBUG] Found last active region:', lastActiveRegion.id, 'with state:', regionState);
+        setInitialActiveRegion(lastActiveRegion);
+        setInitialCurrentStepIndex(regionState?.currentStepIndex || 0);
+      }
+      chooseViewerMode(lastActiveRegion ? 'regions' : getPageMode(worksheetData.meta, pageNumber), false);
+    } else if (storedProgress.lastActiveGuidanceKey) {
+      let lastActiveGuidanceItem: AutoModeGuidanceItem | undefined;
+      if (currentPageData) {
+        const [, guidanceTitle] = storedProgress.lastActiveGuidanceKey.split('_', 2);
+        lastActiveGuidanceItem = currentPageData.guidance.find(
+          item => item.title === guidanceTitle
+        );
+        if (lastActiveGuidanceItem) {
+          const guidanceState = storedProgress.guidance[storedProgress.lastActiveGuidanceKey];
+          console.log('🔍 [DEBUG] Found last active guidance item:', lastActiveGuidanceItem.title, 'with state:', guidanceState);
+          setInitialActiveGuidanceItem(lastActiveGuidanceItem);
+          setInitialCurrentStepIndex(guidanceState?.currentStepIndex || 0);
+        }
+      }
+      chooseViewerMode(lastActiveGuidanceItem ? 'auto' : getPageMode(worksheetData.meta, pageNumber), false);
+    } else {
+      chooseViewerMode(getPageMode(worksheetData.meta, pageNumber), false);
+    }
+  }, [id, n, loadedPageProgress, locationState, worksheetData, urlRegionId, urlGuidanceKey, urlStepIndex]);
+  
+  // Keep the URL in sync with the active region/guidance item and step so it can be reloaded or shared
+  useEffect(() => {
+    if (!id || !n || !worksheetData) return;
+    
+    const pageIndex = parseInt(n, 10);
+    let guidanceKey: number | null = null;
+    if (currentActiveGuidanceItem && !currentActiveRegion) {
+      guidanceKey = getGuidanceItemKey(getPageGuidance(worksheetData.meta, pageIndex), currentActiveGuidanceItem);
+    }
+    
+    const hasActiveTarget = !!currentActiveRegion || guidanceKey !== null;
+    // The viewers report "nothing active" before restoring a deep link, so only clear a link we wrote ourselves
+    if (!hasActiveTarget && lastSyncedPathRef.current === null) return;
+    
+    const targetPath = buildWorksheetPath({
+      worksheetId: id,
+      page: pageIndex,
+      regionId: currentActiveRegion?.id,
+      guidanceKey,
+      stepIndex: hasActiveTarget ? currentStepIndex : 0
+    });
+    lastSyncedPathRef.current = hasActiveTarget ? targetPath : null;
+    
+    if (`${location.pathname}${location.search}` !== targetPath) {
+      navigate(targetPath, { replace: true });
+    }
+  }, [id, n, worksheetData, currentActiveRegion, currentActiveGuidanceItem, currentStepIndex, location.pathname, location.search, navigate]);
+  
+  // Switches a hybrid page between its regions (PDF) view and its guidance view
+  const handleSwitchViewerMode = useCallback((mode: PageMode) => {
+    if (!id || !n) return;
+    setInitialActiveRegion(null);
+    setInitialActiveGuidanceItem(null);
+    setInitialCurrentStepIndex(0);
+    setCurrentActiveRegion(null);
+    setCurrentActiveGuidanceItem(null);
+    setCurrentStepIndex(0);
+    setPageViewerMode({ pageKey: `${id}_${n}`, mode });
+  }, [id, n]);
   
   const goBack = () => {
     navigate("/");
   };
 
+  const handlePageChange = useCallback((page: number) => {
+    if (!id) return;
+    navigate(buildWorksheetPath({ worksheetId: id, page }));
+  }, [id, navigate]);
+
+  // Writes the current page's progress through to the store. Skipped until that page's progress has
+  // been loaded, so the viewer's reset on a page change isn't saved under the new page with stale data.
+  const persistPageProgress = useCallback((progress: PageProgress) => {
+    if (!id || !n || loadedPageKeyRef.current !== `${id}_${n}`) return;
+    
+    pageProgressRef.current = progress;
+    setAllRegionsState(progress.regions);
+    setAllGuidanceState(progress.guidance);
+    savePageProgress(id, n, progress).catch(error => {
+      console.warn('Failed to save page progress:', error);
+    });
+  }, [id, n]);
+
   // Memoize the handleRegionStateChange function to prevent unnecessary re-renders
   const handleRegionStateChange = useCallback((region: RegionData | null, stepIndex: number) => {
     console.log('🔍 [DEBUG] handleRegionStateChange called with region:', region?.id, 'stepIndex:', stepIndex);
@@ -201,97 +313,25 @@ const WorksheetPage: React.FC = () => {
       return stepChanged ? stepIndex : prevStepIndex;
     });
     
-    // Update all regions state and save to session storage
-    if (id && n) {
-      const sessionKey = `worksheet_page_state_${id}_${n}`;
-      console.log('🔍 [DEBUG] Using session key for save:', sessionKey);
-      
-      // Use functional update to ensure we have the latest state
-      setAllRegionsState(currentAllRegionsState => {
-        console.log('🔍 [DEBUG] Current allRegionsState before update:', currentAllRegionsState);
-        
-        if (region) {
-          // Update the state for this specific region
-          const updatedAllRegionsState = {
-            ...currentAllRegionsState,
-            [region.id]: {
-              currentStepIndex: stepIndex
-            }
-          };
-          console.log('🔍 [DEBUG] Updated region state for:', region.id, 'with stepIndex:', stepIndex);
-          
-          // Get current guidance state to preserve it
-          setAllGuidanceState(currentGuidanceState => {
-            const stateToSave: SessionPageData = {
-              lastActiveRegionId: region.id,
-              regions: updatedAllRegionsState,
-              lastActiveGuidanceKey: null,
-              guidance: currentGuidanceState
-            };
-            
-            console.log('🔍 [DEBUG] About to save state to sessionStorage:', stateToSave);
-            
-            try {
-              sessionStorage.setItem(sessionKey, JSON.stringify(stateToSave));
-              console.log('🔍 [DEBUG] Successfully saved state to sessionStorage with key:', sessionKey);
-              
-              // Verify the save by immediately reading it back
-              const verifyState = sessionStorage.getItem(sessionKey);
-              console.log('🔍 [DEBUG] Verification - state read back from sessionStorage:', verifyState);
-            } catch (error) {
-              console.warn('🔍 [DEBUG] Failed to save page state to session:', error);
-            }
-            
-            return currentGuidanceState;
-          });
-          
-          console.log('🔍 [DEBUG] Returning updated allRegionsState:', updatedAllRegionsState);
-          return updatedAllRegionsState;
-        } else {
-          // When no active region, check if we need to update sessionStorage
-          try {
-            const currentStoredState = sessionStorage.getItem(sessionKey);
-            let currentSessionData: SessionPageData | null = null;
-            
-            if (currentStoredState) {
-              currentSessionData = JSON.parse(currentStoredState);
-            }
-            
-            // Only update sessionStorage if lastActiveRegionId is not already null
-            if (currentSessionData?.lastActiveRegionId !== null) {
-              setAllGuidanceState(currentGuidanceState => {
-                const stateToSave: SessionPageData = {
-                  lastActiveRegionId: null,
-                  regions: currentAllRegionsState,
-                  lastActiveGuidanceKey: currentSessionData?.lastActiveGuidanceKey || null,
-                  guidance: currentGuidanceState
-                };
-                
-                console.log('🔍 [DEBUG] About to save state (no active region) to sessionStorage:', stateToSave);
-                
-                sessionStorage.setItem(sessionKey, JSON.stringify(stateToSave));
-                console.log('🔍 [DEBUG] Successfully updated last active region in session with key:', sessionKey);
-                
-                // Verify the save by immediately reading it back
-                const verifyState = sessionStorage.getItem(sessionKey);
-                console.log('🔍 [DEBUG] Verification - state read back from sessionStorage:', verifyState);
-                
-                return currentGuidanceState;
-              });
-            } else {
-              console.log('🔍 [DEBUG] No sessionStorage update needed - lastActiveRegionId already null');
-            }
-          } catch (error) {
-            console.warn('🔍 [DEBUG] Failed to update session state:', error);
+    const currentProgress = pageProgressRef.current;
+    if (region) {
+      persistPageProgress({
+        ...currentProgress,
+        lastActiveRegionId: region.id,
+        regions: {
+          ...currentProgress.regions,
+          [region.id]: {
+            currentStepIndex: stepIndex,
+            completed: !!currentProgress.regions[region.id]?.completed || stepIndex >= getRegionSteps(region).length - 1
           }
-          
-          console.log('🔍 [DEBUG] Returning unchanged allRegionsState:', currentAllRegionsState);
-          // Return the same object reference to prevent unnecessary re-renders
-          return currentAllRegionsState;
-        }
+        },
+        lastActiveGuidanceKey: null
       });
+    } else if (currentProgress.lastActiveRegionId !== null) {
+      // Only write when the last active region actually needs clearing
+      persistPageProgress({ ...currentProgress, lastActiveRegionId: null });
     }
-  }, [id, n]);
+  }, [persistPageProgress]);
 
   // Memoize the handleGuidanceStateChange function for Auto Mode
   const handleGuidanceStateChange = useCallback((guidanceItem: AutoModeGuidanceItem | null, stepIndex: number) => {
@@ -313,84 +353,25 @@ const WorksheetPage: React.FC = () => {
       return stepChanged ? stepIndex : prevStepIndex;
     });
     
-    // Update all guidance state and save to session storage
-    if (id && n) {
-      const sessionKey = `worksheet_page_state_${id}_${n}`;
-      console.log('🔍 [DEBUG] Using session key for guidance save:', sessionKey);
-      
-      setAllGuidanceState(currentAllGuidanceState => {
-        console.log('🔍 [DEBUG] Current allGuidanceState before update:', currentAllGuidanceState);
-        
-        if (guidanceItem) {
-          const pageIndex = parseInt(n, 10);
-          const guidanceKey = `${pageIndex}_${guidanceItem.title}`;
-          const updatedAllGuidanceState = {
-            ...currentAllGuidanceState,
-            [guidanceKey]: {
-              currentStepIndex: stepIndex
-            }
-          };
-          console.log('🔍 [DEBUG] Updated guidance state for:', guidanceKey, 'with stepIndex:', stepIndex);
-          
-          // Get current regions state to preserve it
-          setAllRegionsState(currentRegionsState => {
-            const stateToSave: SessionPageData = {
-              lastActiveRegionId: null,
-              regions: currentRegionsState,
-              lastActiveGuidanceKey: guidanceKey,
-              guidance: updatedAllGuidanceState
-            };
-            
-            console.log('🔍 [DEBUG] About to save guidance state to sessionStorage:', stateToSave);
-            
-            try {
-              sessionStorage.setItem(sessionKey, JSON.stringify(stateToSave));
-              console.log('🔍 [DEBUG] Successfully saved guidance state to sessionStorage with key:', sessionKey);
-            } catch (error) {
-              console.warn('🔍 [DEBUG] Failed to save guidance state to session:', error);
-            }
-            
-            return currentRegionsState;
-          });
-          
-          console.log('🔍 [DEBUG] Returning updated allGuidanceState:', updatedAllGuidanceState);
-          return updatedAllGuidanceState;
-        } else {
-          // When no active guidance item, update sessionStorage
-          try {
-            const currentStoredState = sessionStorage.getItem(sessionKey);
-            let currentSessionData: SessionPageData | null = null;
-            
-            if (currentStoredState) {
-              currentSessionData = JSON.parse(currentStoredState);
-            }
-            
-            if (currentSessionData?.lastActiveGuidanceKey !== null) {
-              setAllRegionsState(currentRegionsState => {
-                const stateToSave: SessionPageData = {
-                  lastActiveRegionId: currentSessionData?.lastActiveRegionId || null,
-                  regions: currentRegionsState,
-                  lastActiveGuidanceKey: null,
-                  guidance: currentAllGuidanceState
-                };
-                
-                console.log('🔍 [DEBUG] About to save state (no active guidance) to sessionStorage:', stateToSave);
-                
-                sessionStorage.setItem(sessionKey, JSON.stringify(stateToSave));
-                console.log('🔍 [DEBUG] Successfully updated last active guidance in session with key:', sessionKey);
-                
-                return currentRegionsState;
-              });
-            }
-          } catch (error) {
-            console.warn('🔍 [DEBUG] Failed to update guidance session state:', error);
+    const currentProgress = pageProgressRef.current;
+    if (guidanceItem) {
+      const guidanceKey = `${parseInt(n || '', 10)}_${guidanceItem.title}`;
+      persistPageProgress({
+        ...currentProgress,
+        lastActiveRegionId: null,
+        lastActiveGuidanceKey: guidanceKey,
+        guidance: {
+          ...currentProgress.guidance,
+          [guidanceKey]: {
+            currentStepIndex: stepIndex,
+            completed: !!currentProgress.guidance[guidanceKey]?.completed || stepIndex >= getGuidanceSteps(guidanceItem).length - 1
           }
-          
-          return currentAllGuidanceState;
         }
       });
+    } else if (currentProgress.lastActiveGuidanceKey !== null) {
+      persistPageProgress({ ...currentProgress, lastActiveGuidanceKey: null });
     }
-  }, [id, n]);
+  }, [n, persistPageProgress]);
 
   if (!id || !n) {
     return (
@@ -435,10 +416,14 @@ const WorksheetPage: React.FC = () => {
   if (error || !worksheetData) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center">
-        <div className="text-center" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
-          <h1 className="text-2xl font-bold text-red-500 mb-4">
-            {error?.message || t('worksheet.notFound')}
-          </h1>
+        <div className="text-center flex flex-col items-center p-4" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
+          {error instanceof WorksheetValidationError ? (
+            <WorksheetValidationReport error={error} />
+          ) : (
+            <h1 className="text-2xl font-bold text-red-500 mb-4">
+              {error instanceof WorksheetNotFoundError ? t('worksheet.notFound') : error?.message || t('worksheet.notFound')}
+            </h1>
+          )}
           <Button onClick={goBack} className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white">
             {t('worksheet.returnToScanner')}
           </Button>
@@ -447,8 +432,11 @@ const WorksheetPage: React.FC = () => {
     );
   }
 
-  // Determine which mode we're in and render accordingly
-  const isAutoMode = worksheetData && isAutoModeMetadata(worksheetData.meta);
+  // Determine which viewer the page uses and render accordingly
+  const viewerMode = pageViewerMode?.pageKey === `${id}_${n}`
+    ? pageViewerMode.mode
+    : getPageMode(worksheetData.meta, pageIndex);
+  const isAutoMode = viewerMode === 'auto';
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -457,6 +445,7 @@ const WorksheetPage: React.FC = () => {
           worksheetId={id}
           pageIndex={pageIndex}
           worksheetMeta={worksheetData.meta}
+          pdfUrl={worksheetData.pdfUrl}
           onTextModeChange={setIsTextModeActive}
           initialActiveGuidanceItem={initialActiveGuidanceItem}
           initialCurrentStepIndex={initialCurrentStepIndex}
@@ -467,16 +456,23 @@ const WorksheetPage: React.FC = () => {
         <WorksheetViewer 
           worksheetId={id} 
           pageIndex={pageIndex} 
-          worksheetMeta={worksheetData.meta as any}
+          worksheetMeta={worksheetData.meta}
           pdfUrl={worksheetData.pdfUrl}
           onTextModeChange={setIsTextModeActive}
           initialActiveRegion={initialActiveRegion}
           initialCurrentStepIndex={initialCurrentStepIndex}
           onRegionStateChange={handleRegionStateChange}
+          onPageChange={handlePageChange}
           allRegionsState={allRegionsState}
         />
       )}
       
+      <PageModeSwitchButton
+        shouldDisplay={canSwitchPageMode(worksheetData.meta, pageIndex) && !isTextModeActive}
+        currentMode={viewerMode}
+        onSwitch={handleSwitchViewerMode}
+      />
+      
       <AIChatButton 
         worksheetId={id} 
         pageNumber={pageIndex} 
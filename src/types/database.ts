@@ -1,3 +1,9 @@
+/**
+ * Supabase schema types, in the shape produced by `supabase gen types typescript`.
+ * Regenerate with `npm run types:supabase` after changing the schema; the worksheet
+ * repository's Supabase backend and the `get-worksheet-data` and `ai-tutor` edge functions query these tables.
+ */
+
 export type Json =
   | string
   | number
@@ -9,39 +15,35 @@ export type Json =
 export interface Database {
   public: {
     Tables: {
-      worksheets: {
+      documents: {
         Row: {
           id: string
-          document_name: string
-          document_id: string
-          drm_protected: boolean | null
+          name: string
           drm_protected_pages: number[] | null
+          metadata: Json | null
           created_at: string | null
-          updated_at: string | null
         }
         Insert: {
           id: string
-          document_name: string
-          document_id?: string
-          drm_protected?: boolean | null
+          name: string
           drm_protected_pages?: number[] | null
+          metadata?: Json | null
           created_at?: string | null
-          updated_at?: string | null
         }
         Update: {
           id?: string
-          document_name?: string
-          document_id?: string
-          drm_protected?: boolean | null
+          name?: string
           drm_protected_pages?: number[] | null
+          metadata?: Json | null
           created_at?: string | null
-          updated_at?: string | null
         }
+        Relationships: []
       }
-      regions: {
+      document_regions: {
         Row: {
           id: string
-          worksheet_id: string
+          document_id: string
+          user_id: string | null
           page: number
           x: number
           y: number
@@ -51,11 +53,12 @@ export interface Database {
           name: string
           description: string[] | null
           created_at: string | null
-          updated_at: string | null
+          audio: Json | null
         }
         Insert: {
           id?: string
-          worksheet_id: string
+          document_id: string
+          user_id?: string | null
           page: number
           x: number
           y: number
@@ -65,11 +68,12 @@ export interface Database {
           name: string
           description?: string[] | null
           created_at?: string | null
-          updated_at?: string | null
+          audio?: Json | null
         }
         Update: {
           id?: string
-          worksheet_id?: string
+          document_id?: string
+          user_id?: string | null
           page?: number
           x?: number
           y?: number
@@ -79,15 +83,190 @@ export interface Database {
           name?: string
           description?: string[] | null
           created_at?: string | null
-          updated_at?: string | null
+          audio?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_regions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      worksheet_answer_keys: {
+        Row: {
+          id: number
+          document_id: string
+          page: number
+          region_id: string | null
+          answers: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          document_id: string
+          page: number
+          region_id?: string | null
+          answers: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          document_id?: string
+          page?: number
+          region_id?: string | null
+          answers?: string[]
+          created_at?: string
+        }
+        Relationships: []
+      }
+      ai_tutor_usage: {
+        Row: {
+          id: number
+          device_id: string
+          worksheet_id: string
+          ip_hash: string | null
+          model: string
+          status: 'started' | 'completed' | 'truncated' | 'cancelled' | 'failed'
+          input_tokens: number | null
+          output_tokens: number | null
+          response_chars: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          device_id: string
+          worksheet_id: string
+          ip_hash?: string | null
+          model: string
+          status?: 'started' | 'completed' | 'truncated' | 'cancelled' | 'failed'
+          input_tokens?: number | null
+          output_tokens?: number | null
+          response_chars?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          device_id?: string
+          worksheet_id?: string
+          ip_hash?: string | null
+          model?: string
+          status?: 'started' | 'completed' | 'truncated' | 'cancelled' | 'failed'
+          input_tokens?: number | null
+          output_tokens?: number | null
+          response_chars?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      ai_tutor_guard_events: {
+        Row: {
+          id: number
+          worksheet_id: string
+          page: number
+          focus_title: string | null
+          kind: 'answer_key' | 'pattern'
+          action: 'regenerated' | 'replaced'
+          matched: string
+          reply_excerpt: string
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          worksheet_id: string
+          page: number
+          focus_title?: string | null
+          kind: 'answer_key' | 'pattern'
+          action: 'regenerated' | 'replaced'
+          matched: string
+          reply_excerpt: string
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          worksheet_id?: string
+          page?: number
+          focus_title?: string | null
+          kind?: 'answer_key' | 'pattern'
+          action?: 'regenerated' | 'replaced'
+          matched?: string
+          reply_excerpt?: string
+          created_at?: string
         }
+        Relationships: []
+      }
+      learner_progress: {
+        Row: {
+          sync_code: string
+          kind: 'page_progress' | 'chat_history'
+          record_key: string
+          value: Json
+          updated_at: number
+          synced_at: string
+        }
+        Insert: {
+          sync_code: string
+          kind: 'page_progress' | 'chat_history'
+          record_key: string
+          value: Json
+          updated_at: number
+          synced_at?: string
+        }
+        Update: {
+          sync_code?: string
+          kind?: 'page_progress' | 'chat_history'
+          record_key?: string
+          value?: Json
+          updated_at?: number
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      learner_progress_pushes: {
+        Row: {
+          id: number
+          sync_code: string
+          ip_hash: string | null
+          record_count: number
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          sync_code: string
+          ip_hash?: string | null
+          record_count: number
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          sync_code?: string
+          ip_hash?: string | null
+          record_count?: number
+          created_at?: string
+        }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      pull_learner_progress: {
+        Args: {
+          p_sync_code: string
+          p_since?: string | null
+        }
+        Returns: Database['public']['Tables']['learner_progress']['Row'][]
+      }
+      push_learner_progress: {
+        Args: {
+          p_sync_code: string
+          p_records: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -96,4 +275,10 @@ export interface Database {
       [_ in never]: never
     }
   }
-}
\ No newline at end of file
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
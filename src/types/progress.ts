@@ -0,0 +1,56 @@
+export interface StoredStepState {
+  currentStepIndex: number;
+  /** Set once the learner has reached the last step; never cleared */
+  completed?: boolean;
+}
+
+/**
+ * Per-page learner progress: the step reached in every region (regions mode) or guidance item
+ * (auto mode), plus whichever one was open last so it can be resumed.
+ */
+export interface PageProgress {
+  lastActiveRegionId: string | null;
+  regions: Record<string, StoredStepState>;
+  lastActiveGuidanceKey: string | null;
+  guidance: Record<string, StoredStepState>;
+}
+
+export interface StoredChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Summary of the start of a page's chat that no longer fits the AI's context budget.
+ * Kept on this device only; it is rebuilt if the history it summarises has changed.
+ */
+export interface ChatSummary {
+  summary: string;
+  /** Number of messages at the start of the saved chat history the summary covers */
+  summarizedCount: number;
+  /** Content of the last covered message, to detect histories replaced by sync */
+  lastSummarizedContent: string;
+}
+
+export interface NarrationSettings {
+  /** Playback speed of step narration, where 1 is normal speed */
+  rate: number;
+  /** Reveal the next step when the current one has been narrated */
+  autoAdvance: boolean;
+}
+
+export interface LearnerPreferences {
+  /** ID of the chosen tutor in the tutor catalog (older choices are saved as its video URL) */
+  selectedVirtualTutor: string;
+  narrationSettings: NarrationSettings;
+  /** Read the AI tutor's replies aloud as they arrive */
+  aiChatReadAloud: boolean;
+  /** Random ID the AI tutor proxy rate-limits this device by */
+  aiDeviceId: string;
+  /** Shared secret linking this device's progress to other devices; sync is off without it */
+  progressSyncCode: string;
+  /** Server time (ISO) of the newest change pulled from other devices */
+  progressSyncPulledAt: string;
+  /** Local time (ms) of the newest change pushed to the server */
+  progressSyncPushedAt: number;
+}
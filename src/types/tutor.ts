@@ -0,0 +1,31 @@
+/**
+ * A stretch of a tutor's video, in seconds
+ */
+export interface TutorVideoSegment {
+  start: number;
+  end: number;
+}
+
+/**
+ * What the tutor video shows: waiting, speaking, or speaking loudly (emphasis)
+ */
+export type TutorVideoState = 'idle' | 'talking' | 'emphasis';
+
+export interface VirtualTutor {
+  id: string;
+  /** Display name per language code, e.g. `{ "en": "Sara", "ar": "سارة" }` */
+  name: Record<string, string>;
+  videoSrc: string;
+  posterSrc: string;
+  /**
+   * Parts of the video looped while the tutor waits and while narration plays. Tutors without
+   * an emphasis segment use the talking one for louder speech too.
+   */
+  segments: {
+    idle: TutorVideoSegment;
+    talking: TutorVideoSegment;
+    emphasis?: TutorVideoSegment;
+  };
+  /** Preferred speech synthesis voice name per language code, for steps without a recording */
+  voice?: Record<string, string>;
+}
@@ -1,3 +1,23 @@
+/**
+ * A word or phrase of a step's narration, timed in seconds from the start of its audio
+ */
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Recorded narration for one step of a region
+ */
+export interface RegionStepAudio {
+  url: string;
+  /** Length in seconds */
+  duration?: number;
+  mime_type?: string;
+  transcript?: TranscriptCue[];
+}
+
 export interface RegionData {
   id: string;
   document_id: string;
@@ -11,6 +31,12 @@ export interface RegionData {
   name: string;
   description: string[];
   created_at: string;
+  /**
+   * Narration per step, in the same order as the steps from `getRegionSteps`. Steps with no
+   * entry are read with speech synthesis. Regions without it use the legacy
+   * `/audio/{worksheetId}/{name}_{step}.mp3` files.
+   */
+  audio?: (RegionStepAudio | null)[];
 }
 
 export interface RegionsModeMetadata {
@@ -20,9 +46,23 @@ export interface RegionsModeMetadata {
   drmProtectedPages: number[] | boolean;
 }
 
+/**
+ * Approximate area of a page, as fractions (0-1) of the page's width and height
+ */
+export interface PageArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface AutoModeGuidanceItem {
+  /** Stable key for the item's narration; defaults to `{page}_{position}` */
+  id?: string;
   title: string;
   description: string;
+  /** Part of the page the guidance refers to, highlighted on request */
+  area?: PageArea;
 }
 
 export interface AutoModePageData {
@@ -36,13 +76,48 @@ export interface AutoModeMetadata {
   data: AutoModePageData[];
 }
 
-export type WorksheetMetadata = RegionsModeMetadata | AutoModeMetadata;
+export type PageMode = "regions" | "auto";
+
+export interface HybridPageData {
+  page_number: number;
+  /** Viewer the page opens in; a page with both regions and guidance can switch between them */
+  mode: PageMode;
+  page_description?: string;
+  guidance?: AutoModeGuidanceItem[];
+}
+
+/**
+ * Mixes both formats in one document: positioned regions on any page, plus AI-generated
+ * guidance for the pages listed in `pages`. Pages not listed open in regions mode.
+ */
+export interface HybridModeMetadata {
+  mode: "hybrid";
+  documentName: string;
+  documentId: string;
+  regions: RegionData[];
+  drmProtectedPages: number[] | boolean;
+  pages: HybridPageData[];
+}
+
+export type WorksheetMetadata = RegionsModeMetadata | AutoModeMetadata | HybridModeMetadata;
+
+/**
+ * Everything the worksheet page needs: its metadata and a URL for the PDF
+ */
+export interface WorksheetData {
+  meta: WorksheetMetadata;
+  pdfUrl: string;
+}
 
-// Type guards to help distinguish between the two formats
+// Type guards to help distinguish between the formats
 export function isAutoModeMetadata(meta: WorksheetMetadata): meta is AutoModeMetadata {
   return 'mode' in meta && meta.mode === 'auto';
 }
 
+export function isHybridModeMetadata(meta: WorksheetMetadata): meta is HybridModeMetadata {
+  return 'mode' in meta && meta.mode === 'hybrid';
+}
+
 export function isRegionsModeMetadata(meta: WorksheetMetadata): meta is RegionsModeMetadata {
-  return !('mode' in meta) || (meta as any).mode !== 'auto';
+  return !('mode' in meta) && Array.isArray((meta as RegionsModeMetadata).regions);
 }
\ No newline at end of file
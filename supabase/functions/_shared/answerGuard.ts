@@ -0,0 +1,108 @@
+/**
+ * Checks tutor replies for answers given away. With the page's answer keys, a reply counts as
+ * giving an answer away when it contains an answer from the key, or when an answer-giving phrase
+ * ("the answer is ...", "you should write ...") states one; phrases stating anything else are
+ * ordinary hints. Without a key, only replies that state an answer outright ("the answer is
+ * ...") are caught. Shared by the ai-tutor function and the app, which has no answer keys and
+ * checks the replies of the providers it calls directly.
+ */
+
+export interface AnswerLeak {
+  /** `answer_key` when the answer appears in the reply, `pattern` when a phrase states it */
+  kind: 'answer_key' | 'pattern'
+  /** The answer found in the reply */
+  matched: string
+}
+
+// Arabic diacritics (including hamza marks split off by NFKD) and tatweel
+const ARABIC_MARKS = /[\u064B-\u065F\u0670\u0640]/g
+
+/**
+ * Lowercase words separated by single spaces, without accents, punctuation or Arabic diacritics,
+ * and with Arabic-Indic digits as Western ones, so spelling variants still match
+ */
+const normalize = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036F]/g, '')
+    .replace(ARABIC_MARKS, '')
+    .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+
+const containsPhrase = (normalizedText: string, normalizedPhrase: string) =>
+  ` ${normalizedText} `.includes(` ${normalizedPhrase} `)
+
+// Phrases that state an answer outright, matched on normalized text and followed by what they state
+const ANSWER_STATEMENTS = [
+  /(?:^| )(?:the )?(?:correct |right |final )?answer (?:is|would be|should be|will be) (\S+(?: \S+){0,3})/g,
+  /(?:^| )(?:ال)?(?:اجابه|جواب)(?: ال(?:صحيحه|صحيح))? (?:هي|هو) (\S+(?: \S+){0,3})/g,
+]
+
+// Phrases that state an answer, or often introduce a hint instead
+const ANSWER_PHRASES = [
+  ...ANSWER_STATEMENTS,
+  /(?:^| )you (?:should|need to|have to) (?:write|put|fill in|circle|choose) (\S+(?: \S+){0,3})/g,
+  /(?:^| )fill (?:it |the blank |the gap )?in with (\S+(?: \S+){0,3})/g,
+  /(?:^| )(?:اكتب|ضع|اختر) (?:كلمه )?(\S+(?: \S+){0,3})/g,
+]
+
+// Single short answers (a number, "a", "yes") appear in hints too often to flag on their own
+const isShortAnswer = (normalizedAnswer: string) =>
+  !normalizedAnswer.includes(' ') && (normalizedAnswer.length < 3 || /^\d+$/.test(normalizedAnswer))
+
+/**
+ * Finds an answer given away in `reply`, checked against `answers` when the page has a key.
+ * Answers the student has already written themselves (in `studentMessages`) may be repeated
+ * back, e.g. to confirm them.
+ */
+export function findAnswerLeak(reply: string, answers: string[], studentMessages: string[] = []): AnswerLeak | null {
+  const normalizedReply = normalize(reply)
+  if (!normalizedReply) return null
+
+  const normalizedStudentText = normalize(studentMessages.join('\n'))
+  if (answers.length === 0) {
+    for (const pattern of ANSWER_STATEMENTS) {
+      for (const match of normalizedReply.matchAll(pattern)) {
+        const statedAnswer = match[1].split(' ')[0]
+        if (!containsPhrase(normalizedStudentText, statedAnswer)) {
+          return { kind: 'pattern', matched: match[1] }
+        }
+      }
+    }
+    return null
+  }
+
+  const guardedAnswers = answers
+    .map(answer => ({ answer, normalized: normalize(answer) }))
+    .filter(({ normalized }) => normalized && !containsPhrase(normalizedStudentText, normalized))
+
+  for (const { answer, normalized } of guardedAnswers) {
+    if (!isShortAnswer(normalized) && containsPhrase(normalizedReply, normalized)) {
+      return { kind: 'answer_key', matched: answer }
+    }
+  }
+
+  // Short answers count once a phrase states them
+  for (const pattern of ANSWER_PHRASES) {
+    for (const match of normalizedReply.matchAll(pattern)) {
+      const statedAnswer = guardedAnswers.find(({ normalized }) => containsPhrase(match[1], normalized))
+      if (statedAnswer) {
+        return { kind: 'pattern', matched: statedAnswer.answer }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Added to the system instruction when a reply is regenerated after giving an answer away
+ */
+export function buildLeakCorrection(leak: AnswerLeak): string {
+  return `Your previous reply gave the answer away (it said "${leak.matched}"). Reply again with a hint or a guiding question that helps the student work it out, without stating that answer.`
+}
@@ -0,0 +1,457 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildLeakCorrection, findAnswerLeak } from '../_shared/answerGuard.ts'
+import type { AnswerLeak } from '../_shared/answerGuard.ts'
+import { buildTutorInstruction, SUMMARY_INSTRUCTION } from '../_shared/tutorInstructions.ts'
+import type { TutorFocus } from '../_shared/tutorInstructions.ts'
+
+/**
+ * Proxies AI tutor chat requests to Gemini with the project's key (the `GEMINI_API_KEY`
+ * secret), so learners never handle one. The instructions are built here from the worksheet
+ * the chat is on, so only tutoring is relayed. Requests are rate-limited per device, per
+ * device and worksheet, per network (IP address) and overall, replies are capped in length,
+ * and every request is logged to `ai_tutor_usage`.
+ *
+ * Replies are checked against the page's answer keys (`worksheet_answer_keys`, which never
+ * leave the server) as they stream, or for answers stated outright on pages without a key.
+ * A reply that gives an answer away is stopped, logged to `ai_tutor_guard_events` and
+ * regenerated as a hint; if that one gives it away too, the reply is withheld.
+ *
+ * Request: `{ deviceId, context, messages: [{ role, parts }] }`, where `context` is
+ * `{ task: 'reply' | 'summary', worksheetId, page, regionId?, guidanceTitle?, stepIndex?,
+ * hasFocusImage?, hasAttemptPhoto?, summary? }` and parts are `{ type: 'text', text }` or
+ * `{ type: 'image', mimeType, data }` (base64). Requests about unknown worksheets are rejected.
+ * Response: server-sent events with `{ text }` pieces of the reply, then `{ usage }`
+ * (and `{ truncated: true }` if the reply was cut off), then `[DONE]`. `{ restart: true }`
+ * drops the text sent so far for a regenerated reply, and `{ withheld: true }` means no
+ * reply could be given without the answer.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const GEMINI_MODEL = Deno.env.get('AI_TUTOR_MODEL') || 'gemini-2.5-flash'
+const MAX_REQUEST_BYTES = 8 * 1024 * 1024 // the page image plus the cropped region
+const MAX_OUTPUT_TOKENS = 1024
+const MAX_RESPONSE_CHARS = 6000
+const MAX_MESSAGES = 60
+const MAX_REPLY_ATTEMPTS = 2 // the reply, and one regeneration if it gives an answer away
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000 // 1 hour
+const DEVICE_REQUESTS_PER_WINDOW = Number(Deno.env.get('AI_TUTOR_DEVICE_HOURLY_LIMIT')) || 60
+const WORKSHEET_REQUESTS_PER_WINDOW = Number(Deno.env.get('AI_TUTOR_WORKSHEET_HOURLY_LIMIT')) || 30
+// Device IDs are made up by the app, so they're backed by limits a new ID doesn't reset. A
+// school's devices often share one address, hence the higher per-network limit.
+const IP_REQUESTS_PER_WINDOW = Number(Deno.env.get('AI_TUTOR_IP_HOURLY_LIMIT')) || 600
+const GLOBAL_REQUESTS_PER_WINDOW = Number(Deno.env.get('AI_TUTOR_GLOBAL_HOURLY_LIMIT')) || 5000
+const MAX_SUMMARY_CHARS = 4000
+
+const DEVICE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+
+const jsonResponse = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' }
+  })
+
+// Converts the app's messages to Gemini contents, or returns null if any of them is malformed
+function toGeminiContents(messages: unknown) {
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_MESSAGES) return null
+
+  const contents = []
+  for (const message of messages) {
+    if (message?.role !== 'user' && message?.role !== 'assistant') return null
+    if (!Array.isArray(message.parts) || message.parts.length === 0) return null
+
+    const parts = []
+    for (const part of message.parts) {
+      if (part?.type === 'text' && typeof part.text === 'string') {
+        parts.push({ text: part.text })
+      } else if (part?.type === 'image' && IMAGE_MIME_TYPES.includes(part.mimeType) && typeof part.data === 'string') {
+        parts.push({ inlineData: { mimeType: part.mimeType, data: part.data } })
+      } else {
+        return null
+      }
+    }
+    contents.push({ role: message.role === 'user' ? 'user' : 'model', parts })
+  }
+
+  return contents[0].role === 'user' ? contents : null
+}
+
+// Returns the request context if it is well-formed, otherwise null
+function parseContext(context) {
+  const isOptional = (value, type: string) => value === undefined || value === null || typeof value === type
+  if (!context || typeof context !== 'object' ||
+    (context.task !== 'reply' && context.task !== 'summary') ||
+    typeof context.worksheetId !== 'string' || !context.worksheetId || context.worksheetId.length > 200 ||
+    !Number.isInteger(context.page) || context.page < 1 ||
+    !isOptional(context.regionId, 'string') || context.regionId?.length > 200 ||
+    !isOptional(context.guidanceTitle, 'string') || context.guidanceTitle?.length > 500 ||
+    !(context.stepIndex == null || (Number.isInteger(context.stepIndex) && context.stepIndex >= 0)) ||
+    !isOptional(context.hasFocusImage, 'boolean') || !isOptional(context.hasAttemptPhoto, 'boolean') ||
+    !isOptional(context.summary, 'string') || context.summary?.length > MAX_SUMMARY_CHARS) {
+    return null
+  }
+  return context
+}
+
+// Hash of the address the request came from, so the usage log doesn't keep addresses
+async function getClientIpHash(req: Request): Promise<string | null> {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim()
+  if (!ip) return null
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ip))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+async function countRecentRequests(supabase, filters: Record<string, string> = {}): Promise<number> {
+  let query = supabase
+    .from('ai_tutor_usage')
+    .select('id', { count: 'exact', head: true })
+    .gte('created_at', new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString())
+  for (const [column, value] of Object.entries(filters)) {
+    query = query.eq(column, value)
+  }
+
+  const { count, error } = await query
+  if (error) throw error
+  return count || 0
+}
+
+// One paragraph per step, as the app splits region and guidance descriptions
+function getSteps(description: unknown): string[] {
+  const paragraphs = Array.isArray(description)
+    ? description.flatMap(item => typeof item === 'string' ? item.split('\n') : [])
+    : typeof description === 'string' ? description.split('\n') : []
+  return paragraphs.filter(paragraph => paragraph.trim() !== '')
+}
+
+function getChatFocus(title: string, steps: string[], stepIndex: number): TutorFocus {
+  return {
+    title,
+    revealedHints: steps.slice(0, stepIndex + 1),
+    hasHiddenHints: stepIndex + 1 < steps.length
+  }
+}
+
+// Where the chat was opened from, with the hints seen so far; null for the page as a whole or
+// when the region or guidance item isn't on the worksheet
+async function loadChatFocus(supabase, document, context) {
+  const stepIndex = context.stepIndex ?? 0
+
+  if (context.regionId) {
+    const { data: region, error } = await supabase
+      .from('document_regions')
+      .select('name, description')
+      .eq('id', context.regionId)
+      .eq('document_id', document.id)
+      .maybeSingle()
+    if (error) throw error
+    return region ? getChatFocus(region.name, getSteps(region.description), stepIndex) : null
+  }
+
+  if (context.guidanceTitle) {
+    // Auto mode lists the pages under `data`, hybrid mode under `pages`
+    const pages = document.metadata?.mode === 'auto' ? document.metadata.data : document.metadata?.pages
+    const guidanceItem = (Array.isArray(pages) ? pages : [])
+      .find(pageData => pageData?.page_number === context.page)
+      ?.guidance?.find(item => item?.title === context.guidanceTitle)
+    return guidanceItem ? getChatFocus(guidanceItem.title, getSteps(guidanceItem.description), stepIndex) : null
+  }
+
+  return null
+}
+
+// Every accepted answer in the page's answer keys
+async function loadPageAnswers(supabase, worksheetId: string, page: number): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('worksheet_answer_keys')
+    .select('answers')
+    .eq('document_id', worksheetId)
+    .eq('page', page)
+  if (error) throw error
+  return [...new Set<string>((data || []).flatMap(row => row.answers || []))]
+}
+
+// Yields the `data:` payloads of a server-sent event stream
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+    const lines = buffer.split(/\r?\n/)
+    buffer = done ? '' : lines.pop() || ''
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice(5).trim()
+    }
+    if (done) return
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  const geminiApiKey = Deno.env.get('GEMINI_API_KEY')
+  if (!geminiApiKey) {
+    console.error('GEMINI_API_KEY is not set')
+    // The code tells the app to fall back to the learner's own key
+    return jsonResponse({ error: 'AI tutor is not configured', code: 'not_configured' }, 503)
+  }
+
+  try {
+    const rawBody = await req.text()
+    if (new TextEncoder().encode(rawBody).length > MAX_REQUEST_BYTES) {
+      return jsonResponse({ error: 'Request is too large' }, 413)
+    }
+
+    const { deviceId, context: rawContext, messages } = JSON.parse(rawBody)
+    const context = parseContext(rawContext)
+    const contents = toGeminiContents(messages)
+
+    if (typeof deviceId !== 'string' || !DEVICE_ID_PATTERN.test(deviceId) || !context || !contents) {
+      return jsonResponse({ error: 'Invalid request' }, 400)
+    }
+    const { worksheetId, page } = context
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const ipHash = await getClientIpHash(req)
+    const [deviceRequests, worksheetRequests, ipRequests, allRequests] = await Promise.all([
+      countRecentRequests(supabase, { device_id: deviceId }),
+      countRecentRequests(supabase, { device_id: deviceId, worksheet_id: worksheetId }),
+      ipHash ? countRecentRequests(supabase, { ip_hash: ipHash }) : 0,
+      countRecentRequests(supabase)
+    ])
+    if (deviceRequests >= DEVICE_REQUESTS_PER_WINDOW || worksheetRequests >= WORKSHEET_REQUESTS_PER_WINDOW ||
+      ipRequests >= IP_REQUESTS_PER_WINDOW || allRequests >= GLOBAL_REQUESTS_PER_WINDOW) {
+      const retryAfterSeconds = Math.ceil(RATE_LIMIT_WINDOW_MS / 1000)
+      return jsonResponse(
+        { error: 'Too many requests', retryAfterSeconds },
+        429,
+        { 'Retry-After': String(retryAfterSeconds) }
+      )
+    }
+
+    const { data: document, error: documentError } = await supabase
+      .from('documents')
+      .select('id, metadata')
+      .eq('id', worksheetId)
+      .maybeSingle()
+    if (documentError) throw documentError
+    // Not a 404, which the app takes to mean the function isn't deployed
+    if (!document) {
+      return jsonResponse({ error: 'Unknown worksheet' }, 400)
+    }
+
+    const focus = context.task === 'reply' ? await loadChatFocus(supabase, document, context) : null
+    const system = context.task === 'summary'
+      ? SUMMARY_INSTRUCTION
+      : buildTutorInstruction({
+        summary: context.summary,
+        focus,
+        hasFocusImage: context.hasFocusImage,
+        hasAttemptPhoto: context.hasAttemptPhoto
+      })
+
+    // Summaries aren't shown to the student, so only replies are guarded
+    const answers = context.task === 'reply' ? await loadPageAnswers(supabase, worksheetId, page) : []
+    // The student may have worked an answer out already; the tutor can repeat it back
+    const studentMessages = contents
+      .filter(content => content.role === 'user')
+      .map(content => content.parts.map(part => part.text || '').join('\n'))
+
+    const { data: usageRow, error: usageError } = await supabase
+      .from('ai_tutor_usage')
+      .insert({ device_id: deviceId, worksheet_id: worksheetId, ip_hash: ipHash, model: GEMINI_MODEL })
+      .select('id')
+      .single()
+    if (usageError) throw usageError
+
+    const finishUsage = async (update) => {
+      const { error } = await supabase.from('ai_tutor_usage').update(update).eq('id', usageRow.id)
+      if (error) console.error('Usage log update error:', error)
+    }
+
+    let upstreamController = new AbortController()
+    const requestReply = (instruction: string) => {
+      upstreamController = new AbortController()
+      return fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:streamGenerateContent?alt=sse`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'x-goog-api-key': geminiApiKey },
+          body: JSON.stringify({
+            systemInstruction: { parts: [{ text: instruction }] },
+            contents,
+            generationConfig: { maxOutputTokens: MAX_OUTPUT_TOKENS }
+          }),
+          signal: upstreamController.signal
+        }
+      )
+    }
+
+    const logGuardEvent = async (leak: AnswerLeak, action: 'regenerated' | 'replaced', reply: string) => {
+      const { error } = await supabase.from('ai_tutor_guard_events').insert({
+        worksheet_id: worksheetId,
+        page,
+        focus_title: focus?.title ?? null,
+        kind: leak.kind,
+        action,
+        matched: leak.matched.slice(0, 500),
+        reply_excerpt: reply.slice(0, 2000)
+      })
+      if (error) console.error('Guard event log error:', error)
+    }
+
+    let upstream = await requestReply(system)
+    if (!upstream.ok || !upstream.body) {
+      console.error('Gemini error:', upstream.status, await upstream.text().catch(() => ''))
+      await finishUsage({ status: 'failed' })
+      return jsonResponse({ error: 'AI provider error' }, 502)
+    }
+
+    const encoder = new TextEncoder()
+    let responseChars = 0
+    let usage = null
+    let status = 'completed'
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
+
+        // Relays one reply from Gemini, sending only text that has been checked. Stops and
+        // returns what it caught if the reply gives an answer away.
+        const relayReply = async (body: ReadableStream<Uint8Array>) => {
+          let reply = ''
+          // Gemini counts tokens per reply; a regenerated reply's add to those before it
+          const usageBefore = usage
+          for await (const data of readServerSentEvents(body)) {
+            const chunk = JSON.parse(data)
+            if (chunk.usageMetadata) {
+              usage = {
+                inputTokens: (usageBefore?.inputTokens || 0) + (chunk.usageMetadata.promptTokenCount || 0),
+                outputTokens: (usageBefore?.outputTokens || 0) + (chunk.usageMetadata.candidatesTokenCount || 0)
+              }
+            }
+
+            const text = (chunk.candidates?.[0]?.content?.parts || [])
+              .map(part => part.text || '')
+              .join('')
+            if (!text) continue
+
+            reply += text
+            const leak = findAnswerLeak(reply, answers, studentMessages)
+            if (leak) {
+              upstreamController.abort()
+              return { leak, reply }
+            }
+
+            // The last word is held back until it is complete, so part of an answer never goes out.
+            // Replies are also capped on top of the token limit, which doesn't bound their length in characters.
+            const checked = reply.slice(0, reply.search(/\S*$/))
+            if (sendChecked(checked)) return null
+          }
+          sendChecked(reply)
+          return null
+        }
+
+        // Sends `checked` beyond what has been sent already; true once the reply is cut off
+        const sendChecked = (checked: string) => {
+          const allowed = checked.slice(responseChars, MAX_RESPONSE_CHARS)
+          responseChars += allowed.length
+          if (allowed) send({ text: allowed })
+          if (checked.length > MAX_RESPONSE_CHARS) {
+            status = 'truncated'
+            upstreamController.abort()
+            send({ truncated: true })
+            return true
+          }
+          return false
+        }
+
+        try {
+          for (let attempt = 1; ; attempt++) {
+            const caught = await relayReply(upstream.body!)
+            if (!caught) break
+
+            const isLastAttempt = attempt === MAX_REPLY_ATTEMPTS
+            await logGuardEvent(caught.leak, isLastAttempt ? 'replaced' : 'regenerated', caught.reply)
+            send({ restart: true })
+            responseChars = 0
+            if (isLastAttempt) {
+              send({ withheld: true })
+              break
+            }
+
+            const correction = buildLeakCorrection(caught.leak)
+            upstream = await requestReply(`${system}\n\n${correction}`)
+            if (!upstream.ok || !upstream.body) {
+              throw new Error(`Gemini error ${upstream.status}: ${await upstream.text().catch(() => '')}`)
+            }
+          }
+
+          if (usage) send({ usage })
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+          controller.close()
+        } catch (error) {
+          if (status !== 'cancelled') {
+            console.error('Streaming error:', error)
+            status = 'failed'
+            try {
+              send({ error: 'AI provider error' })
+              controller.close()
+            } catch {
+              // The client has already gone
+            }
+          }
+        } finally {
+          await finishUsage({
+            status,
+            input_tokens: usage?.inputTokens ?? null,
+            output_tokens: usage?.outputTokens ?? null,
+            response_chars: responseChars
+          })
+        }
+      },
+
+      // The learner stopped the reply or left the page
+      cancel() {
+        status = 'cancelled'
+        upstreamController.abort()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    })
+
+  } catch (error) {
+    console.error('Function error:', error)
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Invalid request' }, 400)
+    }
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -6,6 +6,45 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const NARRATION_AUDIO_BUCKET = 'narration-audio'
+const SIGNED_URL_EXPIRY_SECONDS = 86400 // 24 hours
+
+// Signs every narration file referenced by the regions, keyed by storage path
+async function signNarrationAudio(supabase, regions): Promise<Map<string, string>> {
+  const paths = new Set<string>()
+  regions.forEach(region => {
+    if (!Array.isArray(region.audio)) return
+    region.audio.forEach(step => {
+      if (typeof step?.path === 'string' && step.path) paths.add(step.path)
+    })
+  })
+  if (paths.size === 0) return new Map()
+
+  const { data, error } = await supabase.storage
+    .from(NARRATION_AUDIO_BUCKET)
+    .createSignedUrls([...paths], SIGNED_URL_EXPIRY_SECONDS)
+
+  if (error) {
+    console.error('Narration audio signing error:', error)
+    return new Map()
+  }
+
+  return new Map(
+    (data || [])
+      .filter(item => item.path && item.signedUrl && !item.error)
+      .map(item => [item.path, item.signedUrl])
+  )
+}
+
+// Swaps a stored step's `path` for its signed `url`. Steps that couldn't be signed become null,
+// which the app reads with speech synthesis instead.
+function toStepAudio(step, signedUrls: Map<string, string>) {
+  if (!step || typeof step !== 'object') return null
+  const { path, ...audio } = step
+  const url = path ? signedUrls.get(path) : audio.url
+  return url ? { ...audio, url } : null
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -50,13 +89,14 @@ serve(async (req) => {
 
     let worksheetMeta;
     const drmProtectedPages = document.drm_protected_pages || [];
+    const documentMode = document.metadata?.mode;
 
     // Check if the document metadata indicates 'auto' mode
-    if (document.metadata && document.metadata.mode === 'auto') {
+    if (documentMode === 'auto') {
       // If it's auto mode, use the metadata directly from the documents table
       worksheetMeta = document.metadata;
     } else {
-      // Otherwise, assume it's regions mode and fetch regions from the document_regions table
+      // Regions mode and hybrid mode both need the positioned regions from the document_regions table
       const { data: regions, error: regionsError } = await supabase
         .from('document_regions')
         .select('*')
@@ -74,6 +114,8 @@ serve(async (req) => {
         )
       }
 
+      const signedAudioUrls = await signNarrationAudio(supabase, regions || [])
+
       // Construct the meta object for regions mode
       worksheetMeta = {
         documentName: document.name,
@@ -91,15 +133,28 @@ serve(async (req) => {
           type: region.type,
           name: region.name,
           description: region.description || [],
-          created_at: region.created_at
+          created_at: region.created_at,
+          audio: Array.isArray(region.audio)
+            ? region.audio.map(step => toStepAudio(step, signedAudioUrls))
+            : undefined
         })) || []
       };
+
+      // Hybrid mode: the document metadata lists each page's mode and any AI-generated guidance,
+      // which is combined with the regions above
+      if (documentMode === 'hybrid') {
+        worksheetMeta = {
+          mode: 'hybrid',
+          ...worksheetMeta,
+          pages: document.metadata.pages || []
+        };
+      }
     }
 
     // Get PDF URL from 'pdfs' storage bucket with 24 hour expiry
     const { data: pdfData, error: storageError } = await supabase.storage
       .from('pdfs')
-      .createSignedUrl(`${worksheetId}.pdf`, 86400) // 24 hours expiry
+      .createSignedUrl(`${worksheetId}.pdf`, SIGNED_URL_EXPIRY_SECONDS)
 
     let pdfUrl = null
     if (pdfData?.signedUrl && !storageError) {
@@ -0,0 +1,90 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+/**
+ * Verifies the HMAC-SHA256 signature of a scanned worksheet QR code with the `QR_SIGNING_SECRET`
+ * secret, which never leaves the server. While the secret is set, unsigned codes are rejected,
+ * except legacy letters+digits codes (version 0), which predate signing and are already
+ * printed; without it, every code is accepted.
+ *
+ * Request: `{ input, signature? }`, where `input` is the code's canonical signing string
+ * (see `getQrSigningInput` in the app) and `signature` its hex HMAC.
+ * Response: `{ valid, signingRequired }`.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_INPUT_LENGTH = 2000
+// Signing inputs start with the payload version; version 0 is the legacy form
+const LEGACY_INPUT_PREFIX = 'v0\n'
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+async function sign(input: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(input)))
+}
+
+// Constant-time comparison so timing doesn't reveal how many characters matched
+function signaturesMatch(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { input, signature } = await req.json()
+    if (typeof input !== 'string' || !input || input.length > MAX_INPUT_LENGTH ||
+      (signature !== undefined && signature !== null && typeof signature !== 'string')) {
+      return jsonResponse({ error: 'Invalid request' }, 400)
+    }
+
+    const secret = Deno.env.get('QR_SIGNING_SECRET')
+    if (!secret) {
+      return jsonResponse({ valid: true, signingRequired: false }, 200)
+    }
+    if (input.startsWith(LEGACY_INPUT_PREFIX)) {
+      return jsonResponse({ valid: true, signingRequired: true }, 200)
+    }
+    if (!signature) {
+      return jsonResponse({ valid: false, signingRequired: true }, 200)
+    }
+
+    const valid = signaturesMatch(await sign(input, secret), signature.toLowerCase())
+    return jsonResponse({ valid, signingRequired: true }, 200)
+
+  } catch (error) {
+    console.error('Function error:', error)
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Invalid request' }, 400)
+    }
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
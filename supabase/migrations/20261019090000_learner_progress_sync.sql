@@ -0,0 +1,128 @@
+/*
+  # Learner progress sync
+
+  1. Tables
+    - `learner_progress`: one row per synced record (page progress or chat history),
+      grouped by the sync code shared between a family's devices
+    - `learner_progress_pushes`: one row per push, with the sync code and network (a hash of
+      the IP address) it came from. Recent rows are counted to rate-limit each sync code,
+      each network and all pushes together; rows older than a day are pruned.
+
+  2. Security
+    - RLS enabled with no policies: rows are only reachable through the functions below,
+      which require the sync code, so one family cannot list another's progress
+
+  3. Functions
+    - `pull_learner_progress`: rows for a sync code changed since a server timestamp
+    - `push_learner_progress`: upserts rows, keeping whichever copy was written last.
+      Per-region max-step merging happens on the client before pushing. A push may hold at
+      most 200 records and 1 MB; larger ones fail with HTTP 413, and pushes over the rate
+      limits with 429. Write times ahead of the server's clock are brought back to it.
+*/
+
+CREATE TABLE IF NOT EXISTS learner_progress (
+  sync_code text NOT NULL CHECK (char_length(sync_code) = 19),
+  kind text NOT NULL CHECK (kind IN ('page_progress', 'chat_history')),
+  record_key text NOT NULL,
+  value jsonb NOT NULL,
+  updated_at bigint NOT NULL, -- client time (ms) of the last change, used for last-writer-wins
+  synced_at timestamptz NOT NULL DEFAULT now(), -- server time of the last push, used as the pull cursor
+  PRIMARY KEY (sync_code, kind, record_key)
+);
+
+CREATE INDEX IF NOT EXISTS learner_progress_sync_code_synced_at_idx
+  ON learner_progress (sync_code, synced_at);
+
+ALTER TABLE learner_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS learner_progress_pushes (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  sync_code text NOT NULL,
+  ip_hash text,
+  record_count integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS learner_progress_pushes_sync_code_created_at_idx
+  ON learner_progress_pushes (sync_code, created_at);
+
+CREATE INDEX IF NOT EXISTS learner_progress_pushes_ip_hash_created_at_idx
+  ON learner_progress_pushes (ip_hash, created_at);
+
+CREATE INDEX IF NOT EXISTS learner_progress_pushes_created_at_idx
+  ON learner_progress_pushes (created_at);
+
+ALTER TABLE learner_progress_pushes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION pull_learner_progress(p_sync_code text, p_since timestamptz DEFAULT NULL)
+RETURNS SETOF learner_progress
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM learner_progress
+  WHERE sync_code = p_sync_code
+    AND (p_since IS NULL OR synced_at > p_since)
+  ORDER BY synced_at;
+$$;
+
+CREATE OR REPLACE FUNCTION push_learner_progress(p_sync_code text, p_records jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- The app splits its pushes to stay within these (see src/lib/progressSync.ts)
+  max_records constant integer := 200;
+  max_bytes constant integer := 1048576;
+  -- Pushes per hour; a device pushes at most every few seconds while the learner works
+  sync_code_pushes_per_hour constant integer := 720;
+  ip_pushes_per_hour constant integer := 3000;
+  all_pushes_per_hour constant integer := 100000;
+  push_ip_hash text;
+BEGIN
+  IF char_length(p_sync_code) IS DISTINCT FROM 19 OR jsonb_typeof(p_records) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Invalid push' USING ERRCODE = '22023';
+  END IF;
+
+  -- PT413 and PT429 are returned by the API as those HTTP statuses
+  IF jsonb_array_length(p_records) > max_records OR octet_length(p_records::text) > max_bytes THEN
+    RAISE EXCEPTION 'Push is too large' USING ERRCODE = 'PT413';
+  END IF;
+
+  -- Same hash of the first forwarded address as the ai-tutor function uses
+  push_ip_hash := encode(sha256(convert_to(NULLIF(trim(split_part(
+    NULLIF(current_setting('request.headers', true), '')::json ->> 'x-forwarded-for', ',', 1
+  )), ''), 'UTF8')), 'hex');
+
+  IF (SELECT count(*) FROM learner_progress_pushes
+        WHERE sync_code = p_sync_code AND created_at > now() - interval '1 hour') >= sync_code_pushes_per_hour
+    OR (push_ip_hash IS NOT NULL AND (SELECT count(*) FROM learner_progress_pushes
+        WHERE ip_hash = push_ip_hash AND created_at > now() - interval '1 hour') >= ip_pushes_per_hour)
+    OR (SELECT count(*) FROM learner_progress_pushes
+        WHERE created_at > now() - interval '1 hour') >= all_pushes_per_hour THEN
+    RAISE EXCEPTION 'Too many pushes' USING ERRCODE = 'PT429';
+  END IF;
+
+  DELETE FROM learner_progress_pushes WHERE created_at < now() - interval '1 day';
+  INSERT INTO learner_progress_pushes (sync_code, ip_hash, record_count)
+  VALUES (p_sync_code, push_ip_hash, jsonb_array_length(p_records));
+
+  -- A device whose clock runs ahead can't make its copy win over later edits elsewhere
+  INSERT INTO learner_progress (sync_code, kind, record_key, value, updated_at, synced_at)
+  SELECT p_sync_code, r.kind, r.record_key, r.value,
+    LEAST(r.updated_at, (extract(epoch FROM now()) * 1000)::bigint), now()
+  FROM jsonb_to_recordset(p_records) AS r(kind text, record_key text, value jsonb, updated_at bigint)
+  ON CONFLICT (sync_code, kind, record_key) DO UPDATE
+    SET value = excluded.value,
+        updated_at = excluded.updated_at,
+        synced_at = now()
+    WHERE excluded.updated_at >= learner_progress.updated_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION pull_learner_progress(text, timestamptz) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION push_learner_progress(text, jsonb) TO anon, authenticated;
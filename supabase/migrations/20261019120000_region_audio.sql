@@ -0,0 +1,33 @@
+/*
+  # Recorded narration for regions
+
+  1. Tables
+    - `document_regions.audio`: one entry per description step (or null for steps read
+      with speech synthesis). Each entry has `path` (object in the `narration-audio` bucket)
+      and optionally `duration` (seconds), `mime_type` and `transcript` (timed cues:
+      `{ start, end, text }`). The `get-worksheet-data` edge function replaces `path`
+      with a signed `url`.
+
+  2. Storage
+    - Private `narration-audio` bucket. Files are only reachable through signed URLs
+      created by the edge function with the service role.
+*/
+
+ALTER TABLE document_regions
+  ADD COLUMN IF NOT EXISTS audio jsonb
+  CHECK (audio IS NULL OR jsonb_typeof(audio) = 'array');
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'narration-audio',
+  'narration-audio',
+  false,
+  10485760, -- 10MB limit
+  ARRAY['audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/wav']
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Service role can manage narration audio"
+ON storage.objects
+FOR ALL
+TO service_role
+USING (bucket_id = 'narration-audio');
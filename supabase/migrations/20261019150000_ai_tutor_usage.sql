@@ -0,0 +1,40 @@
+/*
+  # AI tutor usage
+
+  1. Tables
+    - `ai_tutor_usage`: one row per request proxied by the `ai-tutor` edge function, with the
+      device, worksheet and network (a hash of the IP address) it came from, how it ended and
+      the tokens it used. Recent rows are counted to rate-limit each device (overall and per
+      worksheet), each network and all requests together.
+
+  2. Security
+    - RLS enabled with no policies: only the edge function (service role) reads and writes it
+*/
+
+CREATE TABLE IF NOT EXISTS ai_tutor_usage (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  device_id uuid NOT NULL,
+  worksheet_id text NOT NULL,
+  ip_hash text,
+  model text NOT NULL,
+  status text NOT NULL DEFAULT 'started'
+    CHECK (status IN ('started', 'completed', 'truncated', 'cancelled', 'failed')),
+  input_tokens integer,
+  output_tokens integer,
+  response_chars integer,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_tutor_usage_device_created_at_idx
+  ON ai_tutor_usage (device_id, created_at);
+
+CREATE INDEX IF NOT EXISTS ai_tutor_usage_device_worksheet_created_at_idx
+  ON ai_tutor_usage (device_id, worksheet_id, created_at);
+
+CREATE INDEX IF NOT EXISTS ai_tutor_usage_ip_hash_created_at_idx
+  ON ai_tutor_usage (ip_hash, created_at);
+
+CREATE INDEX IF NOT EXISTS ai_tutor_usage_created_at_idx
+  ON ai_tutor_usage (created_at);
+
+ALTER TABLE ai_tutor_usage ENABLE ROW LEVEL SECURITY;
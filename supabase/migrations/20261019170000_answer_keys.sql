@@ -0,0 +1,45 @@
+/*
+  # Answer keys for the AI tutor
+
+  1. Tables
+    - `worksheet_answer_keys`: accepted answers for a worksheet page, optionally for one of its
+      regions (`region_id`; null for guidance items and whole-page keys). The `ai-tutor` edge
+      function checks its replies against the page's answers so it doesn't give them away.
+    - `ai_tutor_guard_events`: replies the tutor's answer guard caught (stated an answer from
+      the key) and what was done about them, for authors tuning prompts and answer keys.
+
+  2. Security
+    - RLS enabled with no policies on both: answer keys must never reach the app, so only the
+      edge function (service role) reads them and records guard events
+*/
+
+CREATE TABLE IF NOT EXISTS worksheet_answer_keys (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  document_id text NOT NULL,
+  page integer NOT NULL,
+  region_id text,
+  answers text[] NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS worksheet_answer_keys_document_page_idx
+  ON worksheet_answer_keys (document_id, page);
+
+ALTER TABLE worksheet_answer_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS ai_tutor_guard_events (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  worksheet_id text NOT NULL,
+  page integer NOT NULL,
+  focus_title text,
+  kind text NOT NULL CHECK (kind IN ('answer_key', 'pattern')),
+  action text NOT NULL CHECK (action IN ('regenerated', 'replaced')),
+  matched text NOT NULL CHECK (char_length(matched) <= 500),
+  reply_excerpt text NOT NULL CHECK (char_length(reply_excerpt) <= 2000),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_tutor_guard_events_worksheet_idx
+  ON ai_tutor_guard_events (worksheet_id, created_at);
+
+ALTER TABLE ai_tutor_guard_events ENABLE ROW LEVEL SECURITY;